@@ -0,0 +1,211 @@
+import type { AnnotatedFile } from "./annotation-filter";
+import type { AnnotationReply } from "./annotation-thread";
+
+export type ExportFormat = "markdown" | "csv" | "json" | "html";
+export type ExportScope = "file" | "folder" | "vault";
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+	markdown: "md",
+	csv: "csv",
+	json: "json",
+	html: "html",
+};
+
+/**
+ * 导出用的扁平记录；行号从 1 开始，与编辑器显示一致
+ */
+export type ExportRecord = {
+	path: string;
+	line: number;
+	color: string;
+	text: string;
+	note: string;
+	status: string;
+	id: string;
+	author: string;
+	created: string;
+	modified: string;
+	replies: AnnotationReply[];
+};
+
+export type ExportLabels = {
+	title: string;
+	original: string;
+	annotation: string;
+	line: (line: number) => string;
+	reply: string;
+	resolved: string;
+};
+
+export type ExportOptions = {
+	labels: ExportLabels;
+	/** 颜色名 -> 十六进制色值，HTML 报告使用 */
+	colorHex: (color: string) => string;
+};
+
+export function buildExportRecords(files: AnnotatedFile[]): ExportRecord[] {
+	const records: ExportRecord[] = [];
+	files.forEach(file => {
+		file.entries.forEach(entry => {
+			records.push({
+				path: file.path,
+				line: entry.line + 1,
+				color: entry.color,
+				text: entry.text,
+				note: entry.note,
+				status: entry.status,
+				id: entry.metadata.id ?? "",
+				author: entry.metadata.author ?? "",
+				created: entry.metadata.created ?? "",
+				modified: entry.metadata.modified ?? "",
+				replies: entry.replies,
+			});
+		});
+	});
+	return records;
+}
+
+function groupByPath(records: ExportRecord[]): [string, ExportRecord[]][] {
+	const groups = new Map<string, ExportRecord[]>();
+	records.forEach(record => {
+		const group = groups.get(record.path);
+		if (group) group.push(record);
+		else groups.set(record.path, [record]);
+	});
+	return Array.from(groups.entries());
+}
+
+/**
+ * 多行文本在列表项中需要缩进续行，否则会跳出列表
+ */
+function indentContinuation(text: string, indent: string): string {
+	return text.replace(/\r?\n/g, `\n${indent}`);
+}
+
+function toWikiLink(path: string): string {
+	const target = path.replace(/\.md$/i, "");
+	const name = target.split("/").pop() ?? target;
+	return target === name ? `[[${target}]]` : `[[${target}|${name}]]`;
+}
+
+export function formatAnnotationsAsMarkdown(records: ExportRecord[], options: ExportOptions): string {
+	const { labels } = options;
+	const lines = [`## ${labels.title}`, ""];
+
+	groupByPath(records).forEach(([path, group]) => {
+		lines.push(`### ${toWikiLink(path)}`, "");
+		group.forEach(record => {
+			const status = record.status === "resolved" ? ` · ${labels.resolved}` : "";
+			lines.push(`- **${labels.original}**: "${indentContinuation(record.text, "  ")}" (${labels.line(record.line)}${status})`);
+			lines.push(`  - **${labels.annotation}**: ${indentContinuation(record.note, "    ")}`);
+			record.replies.forEach(reply => {
+				const author = reply.author ? ` (${reply.author})` : "";
+				lines.push(`  - **${labels.reply}${author}**: ${indentContinuation(reply.text, "    ")}`);
+			});
+		});
+		lines.push("");
+	});
+
+	return lines.join("\n");
+}
+
+const CSV_COLUMNS: (keyof ExportRecord)[] = ["path", "line", "color", "text", "note", "status", "id", "author", "created", "modified"];
+
+function escapeCsvCell(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
+
+/**
+ * RFC 4180 CSV；回复以 JSON 形式放在最后一列
+ */
+export function formatAnnotationsAsCsv(records: ExportRecord[]): string {
+	const rows = [[...CSV_COLUMNS, "replies"].join(",")];
+	records.forEach(record => {
+		const cells = CSV_COLUMNS.map(column => String(record[column]));
+		cells.push(record.replies.length > 0 ? JSON.stringify(record.replies) : "");
+		rows.push(cells.map(escapeCsvCell).join(","));
+	});
+	return rows.join("\r\n") + "\r\n";
+}
+
+export function formatAnnotationsAsJson(records: ExportRecord[]): string {
+	return JSON.stringify(records, null, 2) + "\n";
+}
+
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+const HTML_REPORT_STYLE = [
+	"body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 860px; margin: 2em auto; padding: 0 1em; color: #222; line-height: 1.5; }",
+	"h2 { margin-top: 2em; font-size: 1.1em; border-bottom: 1px solid #ddd; padding-bottom: 4px; }",
+	".annotation { margin: 12px 0; padding-left: 10px; border-left: 4px solid var(--color); }",
+	".annotation.resolved { opacity: 0.6; }",
+	".text { background: color-mix(in srgb, var(--color) 20%, transparent); }",
+	".meta { color: #888; font-size: 0.85em; }",
+	".note, .reply { white-space: pre-wrap; margin: 4px 0; }",
+	".reply { margin-left: 1em; color: #555; }",
+].join("\n");
+
+/**
+ * 不依赖 Obsidian 的独立 HTML 报告，批注与回复按纯文本显示（保留换行）
+ */
+export function formatAnnotationsAsHtml(records: ExportRecord[], options: ExportOptions): string {
+	const { labels } = options;
+	const body: string[] = [`<h1>${escapeHtml(labels.title)}</h1>`];
+
+	groupByPath(records).forEach(([path, group]) => {
+		body.push(`<h2>${escapeHtml(path)}</h2>`);
+		group.forEach(record => {
+			const resolved = record.status === "resolved";
+			const meta = [labels.line(record.line), record.author, resolved ? labels.resolved : ""].filter(Boolean).join(" · ");
+			body.push(
+				`<div class="annotation${resolved ? " resolved" : ""}" style="--color: ${escapeHtml(options.colorHex(record.color))}">`,
+				`<div><span class="text">${escapeHtml(record.text)}</span> <span class="meta">${escapeHtml(meta)}</span></div>`,
+				`<div class="note">${escapeHtml(record.note)}</div>`,
+				...record.replies.map(reply => `<div class="reply"><strong>${escapeHtml(reply.author || labels.reply)}:</strong> ${escapeHtml(reply.text)}</div>`),
+				"</div>"
+			);
+		});
+	});
+
+	return [
+		"<!DOCTYPE html>",
+		"<html>",
+		"<head>",
+		"<meta charset=\"utf-8\">",
+		`<title>${escapeHtml(labels.title)}</title>`,
+		`<style>\n${HTML_REPORT_STYLE}\n</style>`,
+		"</head>",
+		"<body>",
+		...body,
+		"</body>",
+		"</html>",
+		"",
+	].join("\n");
+}
+
+export function formatAnnotationExport(records: ExportRecord[], format: ExportFormat, options: ExportOptions): string {
+	switch (format) {
+		case "csv":
+			return formatAnnotationsAsCsv(records);
+		case "json":
+			return formatAnnotationsAsJson(records);
+		case "html":
+			return formatAnnotationsAsHtml(records, options);
+		default:
+			return formatAnnotationsAsMarkdown(records, options);
+	}
+}
+
+/**
+ * 去掉文件名中 Obsidian / 文件系统不允许的字符
+ */
+export function sanitizeFileName(name: string): string {
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, "-").replace(/\s+/g, " ").trim();
+}
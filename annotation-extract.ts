@@ -0,0 +1,56 @@
+import { sanitizeFileName } from "./annotation-export";
+
+/**
+ * 提取为笔记后原批注的处理方式：replace 以新笔记链接替换批注内容，append 在批注末尾追加链接
+ */
+export type ExtractLinkMode = "replace" | "append";
+
+/**
+ * 模板变量：
+ * - text：被批注的原文；quote：以 "> " 引用的原文（多行时逐行引用）
+ * - note：批注内容；source：指向源文件的链接；title：源文件名
+ * - date / time：创建时间
+ */
+export type ExtractVariables = {
+	text: string;
+	note: string;
+	source: string;
+	title: string;
+	date: string;
+	time: string;
+};
+
+export const DEFAULT_EXTRACT_FILE_NAME = "{{text}}";
+export const DEFAULT_EXTRACT_TEMPLATE = "{{quote}}\n\n{{note}}\n\nSource: {{source}}\n";
+
+const TEMPLATE_VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+const MAX_FILE_NAME_LENGTH = 80;
+
+export function formatQuote(text: string): string {
+	return text.split(/\r?\n/).map(line => (line ? `> ${line}` : ">")).join("\n");
+}
+
+/**
+ * 替换 {{变量}}；未知变量原样保留，方便与 Templater 等插件的语法共存
+ */
+export function renderExtractTemplate(template: string, variables: ExtractVariables): string {
+	const values: Record<string, string> = { ...variables, quote: formatQuote(variables.text) };
+	return template.replace(TEMPLATE_VARIABLE_REGEX, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * 由文件名模板生成文件名：合并为单行、去掉非法字符并截断；结果为空时使用 fallback
+ */
+export function buildExtractFileName(pattern: string, variables: ExtractVariables, fallback: string): string {
+	const rendered = renderExtractTemplate(pattern, variables).replace(/\s+/g, " ");
+	const name = sanitizeFileName(rendered).slice(0, MAX_FILE_NAME_LENGTH).trim();
+	return name || sanitizeFileName(fallback);
+}
+
+/**
+ * 提取后批注的新内容
+ */
+export function linkNoteToExtract(note: string, link: string, mode: ExtractLinkMode): string {
+	if (mode === "replace" || !note.trim()) return link;
+	return `${note.replace(/\s+$/, "")}\n\n${link}`;
+}
@@ -0,0 +1,52 @@
+import type { AnnotationListEntry } from "./annotation-normalization";
+
+export type AnnotatedFile = {
+	path: string;
+	entries: AnnotationListEntry[];
+};
+
+export type AnnotationFilter = {
+	/** null = 所有颜色；"" 为默认（橙色）批注 */
+	color: string | null;
+	/** "" = 整个库 */
+	folder: string;
+	query: string;
+};
+
+function isInFolder(path: string, folder: string): boolean {
+	if (!folder) return true;
+	return path.startsWith(folder.endsWith("/") ? folder : folder + "/");
+}
+
+function matchesQuery(entry: AnnotationListEntry, terms: string[]): boolean {
+	if (terms.length === 0) return true;
+	const replies = entry.replies.map(reply => `${reply.author}\n${reply.text}`).join("\n");
+	const haystack = `${entry.text}\n${entry.note}\n${replies}`.toLowerCase();
+	return terms.every(term => haystack.includes(term));
+}
+
+export function filterAnnotatedFiles(files: AnnotatedFile[], filter: AnnotationFilter): AnnotatedFile[] {
+	const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+	const result: AnnotatedFile[] = [];
+
+	for (const file of files) {
+		if (!isInFolder(file.path, filter.folder)) continue;
+		const entries = file.entries.filter(entry =>
+			(filter.color === null || entry.color === filter.color) && matchesQuery(entry, terms)
+		);
+		if (entries.length > 0) result.push({ path: file.path, entries });
+	}
+
+	return result;
+}
+
+export function listAnnotatedFolders(files: AnnotatedFile[]): string[] {
+	const folders = new Set<string>();
+	for (const file of files) {
+		const parts = file.path.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			folders.add(parts.slice(0, i).join("/"));
+		}
+	}
+	return Array.from(folders).sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,120 @@
+import { findCodeRanges, findProtectedRanges } from "./annotation-import";
+import { buildAnnotationHtml, parseAnnotations, type TextRange } from "./annotation-parser";
+
+export type FootnoteConversionResult = {
+	text: string;
+	count: number;
+};
+
+type FootnoteEdit = TextRange & { insert: string };
+
+const FOOTNOTE_ID_REGEX = /\[\^([^\]\s]+)\]/g;
+const FOOTNOTE_DEFINITION_REGEX = /^\[\^([^\]\s]+)\]:[ \t]?(.*(?:\n(?: {4}|\t).*)*)\n?/gm;
+// ==高亮==[^id] 取高亮文本；否则取紧贴在引用前的一个词（不含括号，避免拆开链接）
+const FOOTNOTE_REFERENCE_REGEX = /(?:==([^=\n]+?)==|([^\s[\]()<>=]+))\[\^([^\]\s]+)\](?!:)/g;
+
+function overlaps(a: TextRange, b: TextRange): boolean {
+	return a.from < b.to && b.from < a.to;
+}
+
+function applyEdits(text: string, edits: FootnoteEdit[]): string {
+	let output = "";
+	let cursor = 0;
+	edits
+		.slice()
+		.sort((a, b) => a.from - b.from)
+		.forEach(edit => {
+			output += text.slice(cursor, edit.from) + edit.insert;
+			cursor = edit.to;
+		});
+	return output + text.slice(cursor);
+}
+
+/**
+ * 多行批注作为脚注定义时，续行缩进四个空格
+ */
+function formatFootnoteDefinition(id: string, note: string): string {
+	return `[^${id}]: ${note.replace(/\r?\n/g, "\n    ")}`;
+}
+
+/**
+ * 将批注转换为标准 Markdown 脚注：<span data-note="n">文本</span> -> 文本[^1]，
+ * 脚注定义追加在文末。指定 range 时只转换与之重叠的批注；空批注保持不变。
+ * 颜色、元数据与回复无法用脚注表达，转换后会丢失。
+ */
+export function convertAnnotationsToFootnotes(text: string, range?: TextRange): FootnoteConversionResult {
+	const usedIds = new Set<string>();
+	let match;
+	const idRegex = new RegExp(FOOTNOTE_ID_REGEX.source, FOOTNOTE_ID_REGEX.flags);
+	while ((match = idRegex.exec(text)) !== null) usedIds.add(match[1]);
+
+	let nextId = 1;
+	const allocateId = () => {
+		while (usedIds.has(String(nextId))) nextId++;
+		usedIds.add(String(nextId));
+		return String(nextId);
+	};
+
+	// 嵌套批注的引用位于各自结束标签处，按结束标签的位置编号，保证正文中的编号递增；代码中的示例批注保持不变
+	const codeRanges = findCodeRanges(text);
+	const annotations = parseAnnotations(text).annotations
+		.filter(annotation => annotation.note.trim() !== "" && (!range || overlaps(annotation, range)))
+		.filter(annotation => !codeRanges.some(code => overlaps(code, annotation)))
+		.sort((a, b) => a.closeTag.from - b.closeTag.from);
+
+	const edits: FootnoteEdit[] = [];
+	const definitions: string[] = [];
+	annotations.forEach(annotation => {
+		const id = allocateId();
+		edits.push({ ...annotation.openTag, insert: "" });
+		edits.push({ ...annotation.closeTag, insert: `[^${id}]` });
+		definitions.push(formatFootnoteDefinition(id, annotation.note));
+	});
+
+	if (definitions.length === 0) return { text, count: 0 };
+
+	const body = applyEdits(text, edits).replace(/\s*$/, "");
+	return { text: `${body}\n\n${definitions.join("\n")}\n`, count: definitions.length };
+}
+
+/**
+ * 将脚注转换回批注。==高亮==[^id] 整段成为批注，普通引用则包裹其前面的一个词；
+ * 引用全部转换后删除对应的脚注定义。代码与已有批注的标签内不做转换。
+ */
+export function convertFootnotesToAnnotations(text: string, options: { range?: TextRange; color?: string } = {}): FootnoteConversionResult {
+	const protectedRanges = findProtectedRanges(text);
+	const definitions = new Map<string, TextRange & { note: string }>();
+	let match;
+	const definitionRegex = new RegExp(FOOTNOTE_DEFINITION_REGEX.source, FOOTNOTE_DEFINITION_REGEX.flags);
+	while ((match = definitionRegex.exec(text)) !== null) {
+		const definition = { from: match.index, to: match.index + match[0].length };
+		if (protectedRanges.some(range => overlaps(range, definition))) continue;
+		definitions.set(match[1], { ...definition, note: match[2].replace(/\n(?: {4}|\t)/g, "\n").trim() });
+	}
+
+	const edits: FootnoteEdit[] = [];
+	const converted = new Map<string, number>();
+	const referenceRegex = new RegExp(FOOTNOTE_REFERENCE_REGEX.source, FOOTNOTE_REFERENCE_REGEX.flags);
+	while ((match = referenceRegex.exec(text)) !== null) {
+		const id = match[3];
+		const definition = definitions.get(id);
+		const edit = { from: match.index, to: match.index + match[0].length };
+		if (!definition || !definition.note) continue;
+		if (options.range && !overlaps(edit, options.range)) continue;
+		if (protectedRanges.some(range => overlaps(range, edit))) continue;
+		edits.push({ ...edit, insert: buildAnnotationHtml({ color: options.color ?? "", note: definition.note, text: match[1] ?? match[2] }) });
+		converted.set(id, (converted.get(id) ?? 0) + 1);
+	}
+
+	// 仍有未转换引用的脚注保留定义
+	converted.forEach((count, id) => {
+		const references = text.split(`[^${id}]`).length - 2;
+		const definition = definitions.get(id);
+		if (definition && count === references) edits.push({ ...definition, insert: "" });
+	});
+
+	if (edits.length === 0) return { text, count: 0 };
+	// 删除文末的脚注定义后，去掉多余的空行
+	const output = applyEdits(text, edits).replace(/\n{2,}$/, "\n");
+	return { text: output, count: edits.filter(edit => edit.insert !== "").length };
+}
@@ -0,0 +1,159 @@
+import { buildAnnotationHtml, decodeDataNote, parseAnnotations, type TextRange } from "./annotation-parser";
+
+/**
+ * 可转换的外部批注写法：
+ * - highlight-footnote：==文本==[^id] 加脚注定义 [^id]: 批注
+ * - comment：==文本== %%批注%%，或紧跟在某个词后的 %%批注%%
+ * - mark：<mark title="批注">文本</mark>（没有 title 时批注为空）
+ * - abbr：<abbr title="批注">文本</abbr>
+ * - span-title：<span title="批注">文本</span>
+ */
+export type ImportSource = "highlight-footnote" | "comment" | "mark" | "abbr" | "span-title";
+
+export const IMPORT_SOURCES: ImportSource[] = ["highlight-footnote", "comment", "mark", "abbr", "span-title"];
+
+export type ImportConversion = {
+	source: ImportSource;
+	/** 从 0 开始的行号 */
+	line: number;
+	original: string;
+	replacement: string;
+};
+
+export type ImportResult = {
+	text: string;
+	conversions: ImportConversion[];
+};
+
+type ImportEdit = TextRange & {
+	source: ImportSource | null;
+	insert: string;
+};
+
+const FENCE_REGEX = /^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^[ \t]*\1[ \t]*$|(?![\s\S]))/gm;
+const INLINE_CODE_REGEX = /(`+)[^`\n][\s\S]*?\1/g;
+const HIGHLIGHT_FOOTNOTE_REGEX = /==([^=\n]+?)==\[\^([^\]\s]+)\]/g;
+const FOOTNOTE_DEFINITION_REGEX = /^\[\^([^\]\s]+)\]:[ \t]?(.*(?:\n(?: {4}|\t).*)*)\n?/gm;
+const HIGHLIGHT_COMMENT_REGEX = /==([^=\n]+?)==[ \t]*%%([^%\n]+?)%%/g;
+// 词必须从行首或空白之后开始，避免把上一条 %%批注%% 的内容当成词
+const WORD_COMMENT_REGEX = /(?<=^|\s)([^\s%=<>]+)[ \t]*%%([^%\n]+?)%%/gm;
+const MARK_REGEX = /<mark(\s[^>]*)?>([^<]*)<\/mark>/gi;
+const ABBR_REGEX = /<abbr(\s[^>]*)>([^<]*)<\/abbr>/gi;
+const SPAN_REGEX = /<span(\s[^>]*)>([^<]*)<\/span>/gi;
+const TITLE_ATTRIBUTE_REGEX = /\stitle\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+
+function getTitle(attributes: string | undefined): string | null {
+	const match = attributes ? TITLE_ATTRIBUTE_REGEX.exec(attributes) : null;
+	if (!match) return null;
+	return decodeDataNote(match[1] ?? match[2] ?? "");
+}
+
+/**
+ * 代码块与行内代码的范围
+ */
+export function findCodeRanges(text: string): TextRange[] {
+	const ranges: TextRange[] = [];
+	[FENCE_REGEX, INLINE_CODE_REGEX].forEach(pattern => {
+		const regex = new RegExp(pattern.source, pattern.flags);
+		let match;
+		while ((match = regex.exec(text)) !== null) {
+			ranges.push({ from: match.index, to: match.index + match[0].length });
+		}
+	});
+	return ranges;
+}
+
+/**
+ * 代码块、行内代码以及已有批注的开始标签内不做转换
+ */
+export function findProtectedRanges(text: string): TextRange[] {
+	const ranges = findCodeRanges(text);
+	parseAnnotations(text).annotations.forEach(annotation => ranges.push(annotation.openTag));
+	return ranges;
+}
+
+function overlaps(a: TextRange, b: TextRange): boolean {
+	return a.from < b.to && b.from < a.to;
+}
+
+function collectMatches(text: string, pattern: RegExp, visit: (match: RegExpExecArray) => void) {
+	const regex = new RegExp(pattern.source, pattern.flags);
+	let match;
+	while ((match = regex.exec(text)) !== null) visit(match);
+}
+
+export function convertForeignAnnotations(text: string, options: { sources: ImportSource[]; color?: string }): ImportResult {
+	const sources = new Set(options.sources);
+	const color = options.color ?? "";
+	const protectedRanges = findProtectedRanges(text);
+	const candidates: ImportEdit[] = [];
+	const annotate = (annotated: string, note: string) => buildAnnotationHtml({ color, note, text: annotated });
+	const propose = (source: ImportSource, match: RegExpExecArray, insert: string) => {
+		candidates.push({ from: match.index, to: match.index + match[0].length, source, insert });
+	};
+
+	const footnotes = new Map<string, ImportEdit & { note: string }>();
+	if (sources.has("highlight-footnote")) {
+		collectMatches(text, FOOTNOTE_DEFINITION_REGEX, match => {
+			const note = match[2].replace(/\n(?: {4}|\t)/g, "\n").trim();
+			footnotes.set(match[1], { from: match.index, to: match.index + match[0].length, source: null, insert: "", note });
+		});
+		collectMatches(text, HIGHLIGHT_FOOTNOTE_REGEX, match => {
+			const footnote = footnotes.get(match[2]);
+			if (footnote) propose("highlight-footnote", match, annotate(match[1], footnote.note));
+		});
+	}
+	if (sources.has("comment")) {
+		collectMatches(text, HIGHLIGHT_COMMENT_REGEX, match => propose("comment", match, annotate(match[1], match[2].trim())));
+		collectMatches(text, WORD_COMMENT_REGEX, match => propose("comment", match, annotate(match[1], match[2].trim())));
+	}
+	if (sources.has("mark")) {
+		collectMatches(text, MARK_REGEX, match => propose("mark", match, annotate(match[2], getTitle(match[1]) ?? "")));
+	}
+	if (sources.has("abbr")) {
+		collectMatches(text, ABBR_REGEX, match => {
+			const title = getTitle(match[1]);
+			if (title !== null) propose("abbr", match, annotate(match[2], title));
+		});
+	}
+	if (sources.has("span-title")) {
+		collectMatches(text, SPAN_REGEX, match => {
+			const title = getTitle(match[1]);
+			if (title !== null && !/\bob-comment\b/.test(match[1])) propose("span-title", match, annotate(match[2], title));
+		});
+	}
+
+	// 先出现、且更长的候选优先；与已选编辑或受保护区域重叠的候选丢弃
+	candidates.sort((a, b) => a.from - b.from || b.to - a.to);
+	const edits: ImportEdit[] = [];
+	for (const candidate of candidates) {
+		if (protectedRanges.some(range => overlaps(range, candidate))) continue;
+		if (edits.some(edit => overlaps(edit, candidate))) continue;
+		edits.push(candidate);
+	}
+
+	// 所有引用都已转换的脚注，删除其定义
+	footnotes.forEach((footnote, id) => {
+		const references = text.split(`[^${id}]`).length - 1;
+		const converted = edits.filter(edit => edit.source === "highlight-footnote" && text.slice(edit.from, edit.to).endsWith(`[^${id}]`)).length;
+		if (converted > 0 && converted === references - 1) edits.push(footnote);
+	});
+	edits.sort((a, b) => a.from - b.from);
+
+	const conversions: ImportConversion[] = [];
+	let output = "";
+	let cursor = 0;
+	let line = 0;
+	for (const edit of edits) {
+		const between = text.slice(cursor, edit.from);
+		line += between.split("\n").length - 1;
+		output += between + edit.insert;
+		const original = text.slice(edit.from, edit.to);
+		if (edit.source) conversions.push({ source: edit.source, line, original, replacement: edit.insert });
+		line += original.split("\n").length - 1;
+		cursor = edit.to;
+	}
+	output += text.slice(cursor);
+
+	return { text: output, conversions };
+}
@@ -0,0 +1,119 @@
+import type { AnnotatedFile } from "./annotation-filter";
+import { collectAnnotationsInText, type AnnotationListEntry } from "./annotation-normalization";
+
+// 版本变化时（如批注条目新增 metadata / replies / status 字段）旧索引直接丢弃并重新扫描
+const INDEX_VERSION = 5;
+
+export type FileStatLike = {
+	mtime: number;
+	size: number;
+};
+
+type IndexedFile = FileStatLike & {
+	entries: AnnotationListEntry[];
+};
+
+/**
+ * 只有含批注的文件保存条目；其余文件只保存 [mtime, size]，供启动时判断是否需要重新读取
+ */
+export type SerializedAnnotationIndex = {
+	version: number;
+	files: Record<string, IndexedFile>;
+	unannotated: Record<string, [number, number]>;
+};
+
+/**
+ * 按文件存储的批注索引。未包含批注的文件也会记录 mtime/size，
+ * 这样启动时只需重新读取变化过的文件。
+ */
+export class AnnotationIndex {
+	private files = new Map<string, IndexedFile>();
+
+	static fromSerialized(data: unknown): AnnotationIndex {
+		const index = new AnnotationIndex();
+		const serialized = data as Partial<SerializedAnnotationIndex> | null | undefined;
+		if (!serialized || serialized.version !== INDEX_VERSION || typeof serialized.files !== "object" || !serialized.files) {
+			return index;
+		}
+
+		for (const [path, record] of Object.entries(serialized.files)) {
+			if (record && typeof record.mtime === "number" && typeof record.size === "number" && Array.isArray(record.entries)) {
+				index.files.set(path, { mtime: record.mtime, size: record.size, entries: record.entries });
+			}
+		}
+		for (const [path, stat] of Object.entries(serialized.unannotated ?? {})) {
+			if (Array.isArray(stat) && typeof stat[0] === "number" && typeof stat[1] === "number") {
+				index.files.set(path, { mtime: stat[0], size: stat[1], entries: [] });
+			}
+		}
+		return index;
+	}
+
+	serialize(): SerializedAnnotationIndex {
+		const files: Record<string, IndexedFile> = {};
+		const unannotated: Record<string, [number, number]> = {};
+		this.files.forEach((record, path) => {
+			if (record.entries.length > 0) files[path] = record;
+			else unannotated[path] = [record.mtime, record.size];
+		});
+		return { version: INDEX_VERSION, files, unannotated };
+	}
+
+	has(path: string): boolean {
+		return this.files.has(path);
+	}
+
+	isFresh(path: string, stat: FileStatLike): boolean {
+		const record = this.files.get(path);
+		return !!record && record.mtime === stat.mtime && record.size === stat.size;
+	}
+
+	/**
+	 * 用最新文本更新单个文件，返回批注列表是否发生变化
+	 */
+	update(path: string, stat: FileStatLike, text: string): boolean {
+		const previous = this.files.get(path);
+		const entries = text.includes("ob-comment") ? collectAnnotationsInText(text) : [];
+		this.files.set(path, { mtime: stat.mtime, size: stat.size, entries });
+
+		if (!previous) return entries.length > 0;
+		return JSON.stringify(previous.entries) !== JSON.stringify(entries);
+	}
+
+	remove(path: string): boolean {
+		const previous = this.files.get(path);
+		this.files.delete(path);
+		return !!previous && previous.entries.length > 0;
+	}
+
+	rename(oldPath: string, newPath: string): boolean {
+		const record = this.files.get(oldPath);
+		if (!record) return false;
+		this.files.delete(oldPath);
+		this.files.set(newPath, record);
+		return record.entries.length > 0;
+	}
+
+	/**
+	 * 删除已不存在于库中的文件记录（例如插件未运行期间被删除）
+	 */
+	prune(existingPaths: Set<string>): boolean {
+		let changed = false;
+		Array.from(this.files.keys()).forEach(path => {
+			if (!existingPaths.has(path) && this.remove(path)) changed = true;
+		});
+		return changed;
+	}
+
+	getEntries(path: string): AnnotationListEntry[] {
+		return this.files.get(path)?.entries ?? [];
+	}
+
+	getAnnotatedFiles(): AnnotatedFile[] {
+		const result: AnnotatedFile[] = [];
+		this.files.forEach((record, path) => {
+			if (record.entries.length > 0) result.push({ path, entries: record.entries });
+		});
+		return result.sort((a, b) => a.path.localeCompare(b.path));
+	}
+}
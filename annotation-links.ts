@@ -0,0 +1,117 @@
+import { escapeDataNote, parseAnnotations, type TextRange } from "./annotation-parser";
+import { REPLIES_ATTRIBUTE, getAnnotationReplies, serializeReplies } from "./annotation-thread";
+
+/**
+ * 重命名时的链接替换规则：
+ * - isTarget：链接路径（不含 #标题 / #^块）是否指向被重命名的文件
+ * - wikilink：[[ ]] 中使用的新路径（通常不带 .md）
+ * - markdownLink：[文本](路径) 中使用的新路径，空格会编码为 %20
+ */
+export type LinkRename = {
+	isTarget: (linkpath: string) => boolean;
+	wikilink: string;
+	markdownLink: string;
+};
+
+export type LinkUpdateResult = {
+	text: string;
+	/** 被替换的链接数量 */
+	count: number;
+};
+
+const WIKILINK_REGEX = /\[\[([^\]|#\n]*)(#[^\]|\n]*)?(\|[^\]\n]*)?\]\]/g;
+const MARKDOWN_LINK_REGEX = /(\[[^\]\n]*\]\()([^)\s]+)\)/g;
+
+function decodeLinkPath(path: string): string {
+	try {
+		return decodeURIComponent(path);
+	} catch {
+		return path;
+	}
+}
+
+function isExternalLink(target: string): boolean {
+	return /^[a-z][\w+.-]*:/i.test(target);
+}
+
+/**
+ * 批注内容中的内部链接路径（不含 #标题 / #^块，Markdown 链接已解码），按出现顺序
+ */
+export function extractNoteLinks(note: string): string[] {
+	const links: string[] = [];
+	let match;
+	const wikilinkRegex = new RegExp(WIKILINK_REGEX.source, WIKILINK_REGEX.flags);
+	while ((match = wikilinkRegex.exec(note)) !== null) {
+		if (match[1]) links.push(match[1]);
+	}
+	const markdownRegex = new RegExp(MARKDOWN_LINK_REGEX.source, MARKDOWN_LINK_REGEX.flags);
+	while ((match = markdownRegex.exec(note)) !== null) {
+		const target = match[2];
+		if (isExternalLink(target)) continue;
+		const linkpath = decodeLinkPath(target.split("#")[0]);
+		if (linkpath) links.push(linkpath);
+	}
+	return links;
+}
+
+/**
+ * 替换一段批注内容中指向目标文件的链接，保留 #标题、#^块 引用与别名
+ */
+export function renameLinksInNote(note: string, rename: LinkRename): LinkUpdateResult {
+	let count = 0;
+	const withWikilinks = note.replace(WIKILINK_REGEX, (match, linkpath: string, subpath: string | undefined, alias: string | undefined) => {
+		if (!linkpath || !rename.isTarget(linkpath)) return match;
+		count++;
+		return `[[${rename.wikilink}${subpath ?? ""}${alias ?? ""}]]`;
+	});
+	const text = withWikilinks.replace(MARKDOWN_LINK_REGEX, (match, prefix: string, target: string) => {
+		// 外部链接（http:、mailto: 等）不处理
+		if (isExternalLink(target)) return match;
+		const hash = target.indexOf("#");
+		const linkpath = decodeLinkPath(hash === -1 ? target : target.slice(0, hash));
+		if (!linkpath || !rename.isTarget(linkpath)) return match;
+		count++;
+		return `${prefix}${rename.markdownLink.replace(/ /g, "%20")}${hash === -1 ? "" : target.slice(hash)})`;
+	});
+	return { text, count };
+}
+
+/**
+ * 更新文本中所有批注 data-note 与 data-replies（回复正文）里的链接：只改写属性值本身，嵌套批注互不影响
+ */
+export function renameLinksInAnnotations(text: string, rename: LinkRename): LinkUpdateResult {
+	let count = 0;
+	const edits: (TextRange & { value: string })[] = [];
+	parseAnnotations(text).annotations.forEach(annotation => {
+		const note = renameLinksInNote(annotation.note, rename);
+		if (note.count > 0) {
+			count += note.count;
+			edits.push({ ...annotation.noteRange, value: escapeDataNote(note.text) });
+		}
+
+		const repliesRange = annotation.attributes.find(attr => attr.name === REPLIES_ATTRIBUTE)?.valueRange;
+		if (!repliesRange) return;
+		let replyCount = 0;
+		const replies = getAnnotationReplies(annotation.attributes).map(reply => {
+			const result = renameLinksInNote(reply.text, rename);
+			replyCount += result.count;
+			return { ...reply, text: result.text };
+		});
+		if (replyCount === 0) return;
+		count += replyCount;
+		edits.push({ ...repliesRange, value: escapeDataNote(serializeReplies(replies)) });
+	});
+	if (count === 0) return { text, count };
+
+	let output = "";
+	let cursor = 0;
+	edits
+		.sort((a, b) => a.from - b.from)
+		.forEach(edit => {
+			// 未加引号的属性值改写后补上引号
+			const quoted = /["']/.test(text.charAt(edit.from - 1));
+			output += text.slice(cursor, edit.from) + (quoted ? edit.value : `"${edit.value}"`);
+			cursor = edit.to;
+		});
+	return { text: output + text.slice(cursor), count };
+}
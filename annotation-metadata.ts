@@ -0,0 +1,84 @@
+import { getAttributeValue, withAttribute, type AnnotationAttribute } from "./annotation-parser";
+
+export type AnnotationMetadata = {
+	id?: string;
+	author?: string;
+	/** ISO 8601 时间戳 */
+	created?: string;
+	modified?: string;
+};
+
+type MetadataKey = keyof AnnotationMetadata;
+
+export const METADATA_ATTRIBUTES: Record<MetadataKey, string> = {
+	id: "data-id",
+	author: "data-author",
+	created: "data-created",
+	modified: "data-modified",
+};
+
+const METADATA_KEYS = Object.keys(METADATA_ATTRIBUTES) as MetadataKey[];
+
+/**
+ * 读取批注元数据；getValue 返回已解码的属性值（DOM 的 getAttribute 即可直接使用）
+ */
+export function readAnnotationMetadata(getValue: (name: string) => string | null | undefined): AnnotationMetadata {
+	const metadata: AnnotationMetadata = {};
+	METADATA_KEYS.forEach(key => {
+		const value = getValue(METADATA_ATTRIBUTES[key]);
+		if (value) metadata[key] = value;
+	});
+	return metadata;
+}
+
+/**
+ * 从解析得到的原始属性中读取元数据
+ */
+export function getAnnotationMetadata(attributes: AnnotationAttribute[]): AnnotationMetadata {
+	return readAnnotationMetadata(name => getAttributeValue(attributes, name));
+}
+
+/**
+ * 按 patch 更新元数据属性：已有属性原位替换，新属性按固定顺序追加，值为 null 时删除
+ */
+export function withAnnotationMetadata(
+	attributes: AnnotationAttribute[],
+	patch: { [K in MetadataKey]?: string | null }
+): AnnotationAttribute[] {
+	let next = attributes;
+	METADATA_KEYS.forEach(key => {
+		if (!(key in patch)) return;
+		next = withAttribute(next, METADATA_ATTRIBUTES[key], patch[key] || null);
+	});
+	return next;
+}
+
+export function generateAnnotationId(now: number = Date.now(), random: () => number = Math.random): string {
+	const suffix = `0000${Math.floor(random() * 36 ** 4).toString(36)}`.slice(-4);
+	return `${now.toString(36)}${suffix}`;
+}
+
+/**
+ * 生成精确到秒的 ISO 时间戳，例如 2026-10-18T08:30:00Z
+ */
+export function formatTimestamp(date: Date = new Date()): string {
+	return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+export type AnnotationStatus = "open" | "resolved";
+
+export const STATUS_ATTRIBUTE = "data-status";
+
+/**
+ * 缺少 data-status 或值无法识别时视为 open
+ */
+export function getAnnotationStatus(attributes: AnnotationAttribute[]): AnnotationStatus {
+	return getAttributeValue(attributes, STATUS_ATTRIBUTE) === "resolved" ? "resolved" : "open";
+}
+
+/**
+ * open 为默认状态，不写入属性；重新打开时移除 data-status
+ */
+export function withAnnotationStatus(attributes: AnnotationAttribute[], status: AnnotationStatus): AnnotationAttribute[] {
+	return withAttribute(attributes, STATUS_ATTRIBUTE, status === "resolved" ? "resolved" : null);
+}
@@ -0,0 +1,35 @@
+import type { ParsedAnnotation } from "./annotation-parser";
+
+export type NavigationDirection = "next" | "previous";
+
+export type NavigationTarget = {
+	annotation: ParsedAnnotation;
+	/** 越过文末 / 文首回到另一端 */
+	wrapped: boolean;
+};
+
+/**
+ * 从 offset 出发查找下一条 / 上一条批注（按开始标签位置），到达一端时回绕到另一端。
+ * 光标正位于某条批注的开始处时跳过该批注；color 为 null 时不限颜色，"" 为默认颜色。
+ */
+export function findAdjacentAnnotation(
+	annotations: ParsedAnnotation[],
+	offset: number,
+	direction: NavigationDirection,
+	color: string | null = null
+): NavigationTarget | null {
+	const candidates = annotations
+		.filter(annotation => color === null || annotation.color === color)
+		.sort((a, b) => a.from - b.from);
+	if (candidates.length === 0) return null;
+
+	if (direction === "next") {
+		const next = candidates.find(annotation => annotation.from > offset);
+		return next ? { annotation: next, wrapped: false } : { annotation: candidates[0], wrapped: true };
+	}
+
+	const before = candidates.filter(annotation => annotation.from < offset);
+	return before.length > 0
+		? { annotation: before[before.length - 1], wrapped: false }
+		: { annotation: candidates[candidates.length - 1], wrapped: true };
+}
@@ -0,0 +1,65 @@
+import type { ParsedAnnotation, TextRange } from "./annotation-parser";
+
+/**
+ * 返回所有包含 offset 的批注，由外到内排列
+ */
+export function findAnnotationsAtOffset(annotations: ParsedAnnotation[], offset: number): ParsedAnnotation[] {
+	return annotations
+		.filter(annotation => offset >= annotation.from && offset <= annotation.to)
+		.sort((a, b) => a.depth - b.depth);
+}
+
+function isInside(offset: number, range: TextRange): boolean {
+	return offset > range.from && offset < range.to;
+}
+
+/**
+ * 选区端点如果落在批注标签内部，移到标签外侧，避免把标签切开
+ */
+function snapOutOfTags(annotations: ParsedAnnotation[], range: TextRange): TextRange {
+	let { from, to } = range;
+	for (const annotation of annotations) {
+		if (isInside(from, annotation.openTag)) from = annotation.openTag.to;
+		if (isInside(from, annotation.closeTag)) from = annotation.closeTag.to;
+		if (isInside(to, annotation.openTag)) to = annotation.openTag.from;
+		if (isInside(to, annotation.closeTag)) to = annotation.closeTag.from;
+	}
+	return { from, to };
+}
+
+function crosses(annotation: ParsedAnnotation, range: TextRange): boolean {
+	if (annotation.to <= range.from || annotation.from >= range.to) return false;
+	if (range.from <= annotation.from && annotation.to <= range.to) return false;
+	if (annotation.inner.from <= range.from && range.to <= annotation.inner.to) return false;
+	return true;
+}
+
+/**
+ * 把新批注的选区拆分为若干段，使每一段都与已有批注正确嵌套（包含或被包含）。
+ * 与已有批注部分重叠时，在对方的边界处断开，各段共用同一条批注内容。
+ */
+export function planAnnotationSegments(annotations: ParsedAnnotation[], from: number, to: number): TextRange[] {
+	const pending: TextRange[] = [snapOutOfTags(annotations, { from, to })];
+	const segments: TextRange[] = [];
+
+	while (pending.length > 0) {
+		const segment = pending.shift()!;
+		if (segment.from >= segment.to) continue;
+
+		const crossing = annotations.find(annotation => crosses(annotation, segment));
+		if (!crossing) {
+			segments.push(segment);
+			continue;
+		}
+
+		if (segment.from <= crossing.from) {
+			// 已有批注从选区中间开始：外侧一段 + 进入其内部的一段
+			pending.unshift({ from: segment.from, to: crossing.from }, { from: crossing.inner.from, to: segment.to });
+		} else {
+			// 已有批注在选区中间结束：其内部的一段 + 外侧一段
+			pending.unshift({ from: segment.from, to: crossing.inner.to }, { from: crossing.to, to: segment.to });
+		}
+	}
+
+	return segments;
+}
@@ -1,4 +1,14 @@
-export const COMMENT_REGEX = /<span class="ob-comment(?:\s+([\w-]+))?" data-note="([\s\S]*?)">([\s\S]*?)<\/span>/g;
+import {
+	buildAnnotationOpenTag,
+	decodeDataNote,
+	escapeDataNote,
+	parseAnnotations,
+	stripAnnotationTags,
+	type AnnotationParseErrorReason,
+	type ParsedAnnotation,
+} from "./annotation-parser";
+import { getAnnotationMetadata, getAnnotationStatus, type AnnotationMetadata, type AnnotationStatus } from "./annotation-metadata";
+import { getAnnotationReplies, type AnnotationReply } from "./annotation-thread";
 
 export type AnnotationOffsetRange = {
 	from: number;
@@ -7,33 +17,40 @@ export type AnnotationOffsetRange = {
 
 export type AutoNormalizeAction = "schedule" | "cancel" | "noop";
 
-function buildAnnotationClass(color: string): string {
-	return color ? "ob-comment " + color : "ob-comment";
-}
+export type AnnotationListEntry = AnnotationOffsetRange & {
+	line: number;
+	text: string;
+	note: string;
+	color: string;
+	metadata: AnnotationMetadata;
+	replies: AnnotationReply[];
+	status: AnnotationStatus;
+};
 
-export function escapeDataNote(note: string): string {
-	return note
-		.replace(/&/g, "&amp;")
-		.replace(/"/g, "&quot;")
-		.replace(/</g, "&lt;")
-		.replace(/>/g, "&gt;")
-		.replace(/'/g, "&#39;")
-		.replace(/`/g, "&#96;")
-		.replace(/\|/g, "&#124;")
-		.replace(/\r?\n/g, "&#10;");
-}
+export type AnnotationIssueEntry = AnnotationOffsetRange & {
+	line: number;
+	reason: AnnotationParseErrorReason;
+};
+
+type TextEdit = AnnotationOffsetRange & {
+	insert: string;
+	annotation: ParsedAnnotation | null;
+};
 
-export function decodeDataNote(note: string): string {
-	return note
-		.replace(/&#10;/g, "\n")
-		.replace(/&#13;/g, "\r")
-		.replace(/&#96;/g, "`")
-		.replace(/&#39;/g, "'")
-		.replace(/&quot;/g, "\"")
-		.replace(/&gt;/g, ">")
-		.replace(/&lt;/g, "<")
-		.replace(/&#124;/g, "|")
-		.replace(/&amp;/g, "&");
+const NOTE_ATTRIBUTE_PREFIX = 'data-note="';
+
+/**
+ * 返回一个按偏移量递增查询行号的函数（只向前扫描一次全文）
+ */
+function createLineCounter(text: string): (offset: number) => number {
+	let line = 0;
+	let scanned = 0;
+	return (offset: number) => {
+		for (; scanned < offset; scanned++) {
+			if (text.charCodeAt(scanned) === 10) line++;
+		}
+		return line;
+	};
 }
 
 export function normalizeAnnotationsInText(text: string): { text: string; changed: boolean } {
@@ -42,18 +59,34 @@ export function normalizeAnnotationsInText(text: string): { text: string; change
 }
 
 export function findAnnotationRangeAtOffset(text: string, offset: number): AnnotationOffsetRange | null {
-	COMMENT_REGEX.lastIndex = 0;
-	let match;
-
-	while ((match = COMMENT_REGEX.exec(text)) !== null) {
-		const start = match.index;
-		const end = start + match[0].length;
-		if (offset >= start && offset <= end) {
-			return { from: start, to: end };
-		}
-	}
+	// 批注按起始位置排序，第一个命中的即为最外层批注
+	const annotation = parseAnnotations(text).annotations.find(item => offset >= item.from && offset <= item.to);
+	return annotation ? { from: annotation.from, to: annotation.to } : null;
+}
 
-	return null;
+export function collectAnnotationsInText(text: string): AnnotationListEntry[] {
+	const lineAt = createLineCounter(text);
+	return parseAnnotations(text).annotations.map(annotation => ({
+		from: annotation.from,
+		to: annotation.to,
+		line: lineAt(annotation.from),
+		text: annotation.text.includes("ob-comment") ? stripAnnotationTags(annotation.text) : annotation.text,
+		note: annotation.note,
+		color: annotation.color,
+		metadata: getAnnotationMetadata(annotation.attributes),
+		replies: getAnnotationReplies(annotation.attributes),
+		status: getAnnotationStatus(annotation.attributes),
+	}));
+}
+
+export function collectAnnotationIssuesInText(text: string): AnnotationIssueEntry[] {
+	const lineAt = createLineCounter(text);
+	return parseAnnotations(text).errors.map(error => ({
+		from: error.from,
+		to: error.to,
+		line: lineAt(error.from),
+		reason: error.reason,
+	}));
 }
 
 export function getAutoNormalizeAction(args: {
@@ -81,56 +114,72 @@ function normalizeCursorInsideRawNote(rawNote: string, relativeOffset: number):
 	return escapeDataNote(decodeDataNote(prefix)).length;
 }
 
+/**
+ * 把批注标签改写为规范格式：开始标签重建（data-note 安全转义，保留其余属性），闭合标签统一为 </span>。
+ * 标签内的原文保持不变，因此嵌套批注也可以逐个改写。
+ */
+function collectNormalizationEdits(text: string): TextEdit[] {
+	const edits: TextEdit[] = [];
+	parseAnnotations(text).annotations.forEach(annotation => {
+		const openTag = buildAnnotationOpenTag(annotation);
+		if (text.slice(annotation.openTag.from, annotation.openTag.to) !== openTag) {
+			edits.push({ ...annotation.openTag, insert: openTag, annotation });
+		}
+		if (text.slice(annotation.closeTag.from, annotation.closeTag.to) !== "</span>") {
+			edits.push({ ...annotation.closeTag, insert: "</span>", annotation: null });
+		}
+	});
+	return edits.sort((a, b) => a.from - b.from);
+}
+
+function mapCursorInsideEdit(edit: TextEdit, relativeOffset: number): number {
+	const delta = edit.insert.length - (edit.to - edit.from);
+	const annotation = edit.annotation;
+	if (!annotation) return Math.min(relativeOffset, edit.insert.length);
+
+	const noteStart = annotation.noteRange.from - edit.from;
+	const noteEnd = annotation.noteRange.to - edit.from;
+	if (relativeOffset > noteStart && relativeOffset <= noteEnd) {
+		const nextNoteStart = edit.insert.indexOf(NOTE_ATTRIBUTE_PREFIX) + NOTE_ATTRIBUTE_PREFIX.length;
+		return nextNoteStart + normalizeCursorInsideRawNote(annotation.rawNote, relativeOffset - noteStart);
+	}
+	if (relativeOffset > noteEnd) {
+		return Math.min(Math.max(relativeOffset + delta, 0), edit.insert.length);
+	}
+	return Math.min(relativeOffset, edit.insert.length);
+}
+
 export function normalizeTextWithCursor(text: string, cursorOffset: number): {
 	text: string;
 	changed: boolean;
 	cursorOffset: number;
 } {
-	COMMENT_REGEX.lastIndex = 0;
+	const edits = collectNormalizationEdits(text);
+	if (edits.length === 0) {
+		return { text, changed: false, cursorOffset };
+	}
+
 	let result = "";
 	let lastIndex = 0;
-	let changed = false;
-	let nextCursorOffset = cursorOffset;
-	let match;
-
-	while ((match = COMMENT_REGEX.exec(text)) !== null) {
-		const fullMatch = match[0];
-		const colorClass = match[1] || "";
-		const rawNote = match[2];
-		const visibleText = match[3];
-
-		const safeNote = escapeDataNote(decodeDataNote(rawNote));
-		const replacement = `<span class="${buildAnnotationClass(colorClass)}" data-note="${safeNote}">${visibleText}</span>`;
-
-		const matchStart = match.index;
-		const matchEnd = matchStart + fullMatch.length;
-		const delta = replacement.length - fullMatch.length;
-
-		if (cursorOffset > matchEnd) {
-			nextCursorOffset += delta;
-		} else if (cursorOffset >= matchStart && cursorOffset <= matchEnd) {
-			const openingPrefix = fullMatch.indexOf('data-note="') + 'data-note="'.length;
-			const noteStart = openingPrefix;
-			const noteEnd = noteStart + rawNote.length;
-			const relativeOffset = cursorOffset - matchStart;
-
-			if (relativeOffset > noteStart && relativeOffset <= noteEnd) {
-				const noteRelativeOffset = relativeOffset - noteStart;
-				nextCursorOffset = matchStart + openingPrefix + normalizeCursorInsideRawNote(rawNote, noteRelativeOffset);
-			} else if (relativeOffset > noteEnd) {
-				nextCursorOffset += delta;
-			}
-		}
+	let shift = 0;
+	let nextCursorOffset: number | null = null;
 
-		result += text.slice(lastIndex, matchStart) + replacement;
-		lastIndex = matchStart + fullMatch.length;
-		if (replacement !== fullMatch) changed = true;
-	}
+	edits.forEach(edit => {
+		result += text.slice(lastIndex, edit.from) + edit.insert;
+		lastIndex = edit.to;
+
+		if (nextCursorOffset === null && cursorOffset > edit.from && cursorOffset < edit.to) {
+			nextCursorOffset = edit.from + shift + mapCursorInsideEdit(edit, cursorOffset - edit.from);
+		}
+		if (cursorOffset >= edit.to) {
+			shift += edit.insert.length - (edit.to - edit.from);
+		}
+	});
 
 	result += text.slice(lastIndex);
 	return {
-		text: changed ? result : text,
-		changed,
-		cursorOffset: changed ? nextCursorOffset : cursorOffset,
+		text: result,
+		changed: true,
+		cursorOffset: nextCursorOffset ?? cursorOffset + shift,
 	};
 }
@@ -0,0 +1,110 @@
+export type PaletteColor = {
+	/** 写入 class 的颜色名；"" 表示不带颜色 class 的默认批注 */
+	value: string;
+	/** 用户自定义名称；为空时使用内置颜色的本地化名称 */
+	label: string;
+	hex: string;
+};
+
+export const DEFAULT_COLOR_VALUE = "";
+
+export const BUILTIN_PALETTE: PaletteColor[] = [
+	{ value: "red", label: "", hex: "#e5484d" },
+	{ value: "", label: "", hex: "#ff9900" }, // Orange is default (empty class)
+	{ value: "yellow", label: "", hex: "#e6c229" },
+	{ value: "green", label: "", hex: "#2f9d62" },
+	{ value: "cyan", label: "", hex: "#1abc9c" },
+	{ value: "blue", label: "", hex: "#3498db" },
+	{ value: "purple", label: "", hex: "#9b59b6" },
+	{ value: "gray", label: "", hex: "#95a5a6" },
+];
+
+const HEX_REGEX = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const COLOR_CLASS_REGEX = /^[A-Za-z][\w-]*$/;
+// 这些 class 由插件自身使用，不能作为颜色名
+const RESERVED_CLASSES = ["ob-comment"];
+
+export function isValidHex(hex: string): boolean {
+	return HEX_REGEX.test(hex);
+}
+
+export function isValidColorClass(value: string): boolean {
+	return COLOR_CLASS_REGEX.test(value) && !RESERVED_CLASSES.includes(value);
+}
+
+/**
+ * 把任意名称转换为可用作 class 的颜色名，例如 "Source needed" -> "source-needed"
+ */
+export function toColorClass(label: string): string {
+	const slug = label.trim().toLowerCase().replace(/[^\w-]+/g, "-").replace(/^[^a-z]+|-+$/g, "");
+	return isValidColorClass(slug) ? slug : "";
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+	let digits = hex.replace("#", "");
+	if (digits.length === 3) digits = digits.split("").map(ch => ch + ch).join("");
+	const num = parseInt(digits, 16);
+	return [(num >> 16) & 255, (num >> 8) & 255, num & 255];
+}
+
+/**
+ * 校验并修复存储的调色板：丢弃无效/重复项，并保证默认颜色始终存在
+ */
+export function normalizePalette(input: unknown): PaletteColor[] {
+	if (!Array.isArray(input)) return BUILTIN_PALETTE.map(color => ({ ...color }));
+
+	const seen = new Set<string>();
+	const palette: PaletteColor[] = [];
+	for (const item of input as Partial<PaletteColor>[]) {
+		if (!item || typeof item.value !== "string" || typeof item.hex !== "string") continue;
+		if (item.value !== DEFAULT_COLOR_VALUE && !isValidColorClass(item.value)) continue;
+		if (!isValidHex(item.hex) || seen.has(item.value)) continue;
+		seen.add(item.value);
+		palette.push({ value: item.value, label: typeof item.label === "string" ? item.label : "", hex: item.hex });
+	}
+
+	if (!seen.has(DEFAULT_COLOR_VALUE)) {
+		palette.unshift({ ...BUILTIN_PALETTE.find(color => color.value === DEFAULT_COLOR_VALUE)! });
+	}
+	return palette;
+}
+
+/**
+ * 按名称新建颜色；名称无法转换为 class 时（例如中文）使用 color-N，重名时追加序号
+ */
+export function createPaletteColor(palette: PaletteColor[], label: string, hex: string): PaletteColor {
+	const used = new Set(palette.map(color => color.value));
+	const base = toColorClass(label) || "color";
+	let value = base;
+	for (let n = 2; used.has(value) || (base === "color" && value === "color"); n++) {
+		value = `${base}-${n}`;
+	}
+	return { value, label: label.trim(), hex };
+}
+
+export function moveColor(palette: PaletteColor[], index: number, delta: number): PaletteColor[] {
+	const target = index + delta;
+	if (index < 0 || index >= palette.length || target < 0 || target >= palette.length) return palette;
+	const next = palette.slice();
+	const [item] = next.splice(index, 1);
+	next.splice(target, 0, item);
+	return next;
+}
+
+function buildColorCss(selector: string, hex: string): string {
+	const [r, g, b] = hexToRgb(hex);
+	return [
+		`${selector} { --highlight-color: ${hex}; }`,
+		`body.ob-show-background ${selector} { background-color: rgba(${r}, ${g}, ${b}, var(--highlight-bg-alpha)) !important; }`,
+		`body.ob-show-background ${selector}:hover { background-color: rgba(${r}, ${g}, ${b}, var(--highlight-bg-hover-alpha)) !important; }`,
+	].join("\n");
+}
+
+/**
+ * 生成调色板对应的 CSS；styles.css 中内置颜色的规则仍然保留，已删除的旧颜色依然可以渲染
+ */
+export function buildPaletteCss(palette: PaletteColor[]): string {
+	return palette
+		.map(color => buildColorCss(color.value ? `.ob-comment.${color.value}` : ".ob-comment", color.hex))
+		.join("\n");
+}
@@ -0,0 +1,321 @@
+export type TextRange = {
+	from: number;
+	to: number;
+};
+
+export type AttributeQuote = "\"" | "'" | "";
+
+export type AnnotationAttribute = {
+	/** 小写属性名 */
+	name: string;
+	/** 原始（未解码）属性值；布尔属性为 null */
+	value: string | null;
+	quote: AttributeQuote;
+	valueRange: TextRange | null;
+};
+
+export type ParsedAnnotation = TextRange & {
+	openTag: TextRange;
+	inner: TextRange;
+	closeTag: TextRange;
+	noteRange: TextRange;
+	/** data-note 原始值（HTML 实体未解码） */
+	rawNote: string;
+	note: string;
+	text: string;
+	color: string;
+	/** 除 ob-comment 与颜色之外的其他 class */
+	classes: string[];
+	/** 除 class / data-note 之外的其他属性，保持原顺序 */
+	attributes: AnnotationAttribute[];
+	/** 外层批注的数量，顶层批注为 0 */
+	depth: number;
+};
+
+export type AnnotationParseErrorReason = "unterminated-tag" | "unclosed-span" | "missing-note";
+
+export type AnnotationParseError = TextRange & {
+	reason: AnnotationParseErrorReason;
+};
+
+export type AnnotationParseResult = {
+	annotations: ParsedAnnotation[];
+	errors: AnnotationParseError[];
+};
+
+const ANNOTATION_CLASS = "ob-comment";
+const SPAN_TAG_REGEX = /<(\/?)span(?=[\s>\/])/gi;
+const TAG_END_REGEX = /\s*\/?>/y;
+const ATTRIBUTE_NAME_REGEX = /\s*([^\s"'<>\/=]+)/y;
+const ATTRIBUTE_EQUALS_REGEX = /\s*=\s*/y;
+const UNQUOTED_VALUE_REGEX = /[^\s"'=<>`]+/y;
+// 引号值只在其后紧跟标签结束或下一个属性时才算结束，以兼容旧版未转义引号的 data-note
+const QUOTED_VALUE_BOUNDARY_REGEX = /(?:\s*\/?>|\s+[^\s"'<>\/=]+(?:\s*=|\s*\/?>|\s))/y;
+
+type OpenTag = {
+	end: number;
+	attributes: AnnotationAttribute[];
+};
+
+type OpenFrame = {
+	openTag: TextRange;
+	attributes: AnnotationAttribute[];
+	isAnnotation: boolean;
+};
+
+export function escapeDataNote(note: string): string {
+	return note
+		.replace(/&/g, "&amp;")
+		.replace(/"/g, "&quot;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/'/g, "&#39;")
+		.replace(/`/g, "&#96;")
+		.replace(/\|/g, "&#124;")
+		.replace(/\r?\n/g, "&#10;");
+}
+
+export function decodeDataNote(note: string): string {
+	return note
+		.replace(/&#10;/g, "\n")
+		.replace(/&#13;/g, "\r")
+		.replace(/&#96;/g, "`")
+		.replace(/&#39;/g, "'")
+		.replace(/&quot;/g, "\"")
+		.replace(/&gt;/g, ">")
+		.replace(/&lt;/g, "<")
+		.replace(/&#124;/g, "|")
+		.replace(/&amp;/g, "&");
+}
+
+function matchAt(regex: RegExp, text: string, index: number): RegExpExecArray | null {
+	regex.lastIndex = index;
+	return regex.exec(text);
+}
+
+function findQuotedValueEnd(text: string, start: number, quote: AttributeQuote): number {
+	let index = text.indexOf(quote, start);
+	while (index !== -1) {
+		if (matchAt(QUOTED_VALUE_BOUNDARY_REGEX, text, index + 1)) return index;
+		index = text.indexOf(quote, index + 1);
+	}
+	return -1;
+}
+
+/**
+ * 从 "<span" 之后开始解析属性，直到标签结束符 ">"
+ */
+function parseOpenTag(text: string, start: number): OpenTag | null {
+	const attributes: AnnotationAttribute[] = [];
+	let index = start;
+
+	while (index < text.length) {
+		const tagEnd = matchAt(TAG_END_REGEX, text, index);
+		if (tagEnd) return { end: index + tagEnd[0].length, attributes };
+
+		const nameMatch = matchAt(ATTRIBUTE_NAME_REGEX, text, index);
+		if (!nameMatch) return null;
+		index += nameMatch[0].length;
+
+		const attribute: AnnotationAttribute = {
+			name: nameMatch[1].toLowerCase(),
+			value: null,
+			quote: "",
+			valueRange: null,
+		};
+
+		const equals = matchAt(ATTRIBUTE_EQUALS_REGEX, text, index);
+		if (equals) {
+			index += equals[0].length;
+			const quote = text[index];
+			if (quote === "\"" || quote === "'") {
+				const valueEnd = findQuotedValueEnd(text, index + 1, quote);
+				if (valueEnd === -1) return null;
+				attribute.quote = quote;
+				attribute.valueRange = { from: index + 1, to: valueEnd };
+				index = valueEnd + 1;
+			} else {
+				const unquoted = matchAt(UNQUOTED_VALUE_REGEX, text, index);
+				if (!unquoted) return null;
+				attribute.valueRange = { from: index, to: index + unquoted[0].length };
+				index += unquoted[0].length;
+			}
+			attribute.value = text.slice(attribute.valueRange.from, attribute.valueRange.to);
+		}
+
+		attributes.push(attribute);
+	}
+
+	return null;
+}
+
+function getClassTokens(attributes: AnnotationAttribute[]): string[] {
+	const classAttr = attributes.find(attr => attr.name === "class");
+	return classAttr?.value ? classAttr.value.split(/\s+/).filter(Boolean) : [];
+}
+
+function buildParsedAnnotation(text: string, frame: OpenFrame, closeTag: TextRange): ParsedAnnotation {
+	const noteAttr = frame.attributes.find(attr => attr.name === "data-note")!;
+	const extraClasses = getClassTokens(frame.attributes).filter(cls => cls !== ANNOTATION_CLASS);
+	const inner = { from: frame.openTag.to, to: closeTag.from };
+	const rawNote = noteAttr.value ?? "";
+
+	return {
+		from: frame.openTag.from,
+		to: closeTag.to,
+		openTag: frame.openTag,
+		inner,
+		closeTag,
+		noteRange: noteAttr.valueRange ?? { from: frame.openTag.to, to: frame.openTag.to },
+		rawNote,
+		note: decodeDataNote(rawNote),
+		text: text.slice(inner.from, inner.to),
+		color: extraClasses[0] ?? "",
+		classes: extraClasses.slice(1),
+		attributes: frame.attributes.filter(attr => attr.name !== "class" && attr.name !== "data-note"),
+		depth: 0,
+	};
+}
+
+/**
+ * 扫描全文中的 <span> 标签，按嵌套层级匹配闭合标签，返回所有 ob-comment 批注（按起始位置排序）
+ */
+export function parseAnnotations(text: string): AnnotationParseResult {
+	const annotations: ParsedAnnotation[] = [];
+	const errors: AnnotationParseError[] = [];
+	const stack: OpenFrame[] = [];
+	const tagRegex = new RegExp(SPAN_TAG_REGEX.source, SPAN_TAG_REGEX.flags);
+	let match;
+
+	while ((match = tagRegex.exec(text)) !== null) {
+		const tagStart = match.index;
+
+		if (match[1]) {
+			const closeEnd = text.indexOf(">", tagRegex.lastIndex);
+			if (closeEnd === -1) break;
+			tagRegex.lastIndex = closeEnd + 1;
+
+			const frame = stack.pop();
+			if (!frame) continue;
+			if (frame.isAnnotation) {
+				annotations.push(buildParsedAnnotation(text, frame, { from: tagStart, to: closeEnd + 1 }));
+			}
+			continue;
+		}
+
+		const openTag = parseOpenTag(text, tagRegex.lastIndex);
+		if (!openTag) {
+			const snippetEnd = text.indexOf(">", tagStart);
+			const to = snippetEnd === -1 ? text.length : snippetEnd + 1;
+			if (text.slice(tagStart, to).includes(ANNOTATION_CLASS)) {
+				errors.push({ from: tagStart, to, reason: "unterminated-tag" });
+			}
+			continue;
+		}
+		tagRegex.lastIndex = openTag.end;
+		if (text[openTag.end - 2] === "/") continue; // 自闭合 <span />
+
+		const hasAnnotationClass = getClassTokens(openTag.attributes).includes(ANNOTATION_CLASS);
+		const hasNote = openTag.attributes.some(attr => attr.name === "data-note" && attr.value !== null);
+		if (hasAnnotationClass && !hasNote) {
+			errors.push({ from: tagStart, to: openTag.end, reason: "missing-note" });
+		}
+
+		const isAnnotation = hasAnnotationClass && hasNote;
+		stack.push({ openTag: { from: tagStart, to: openTag.end }, attributes: openTag.attributes, isAnnotation });
+	}
+
+	stack.forEach(frame => {
+		if (frame.isAnnotation) errors.push({ ...frame.openTag, reason: "unclosed-span" });
+	});
+
+	annotations.sort((a, b) => a.from - b.from);
+	errors.sort((a, b) => a.from - b.from);
+
+	// 只按已闭合的批注计算嵌套层级，未闭合的批注不会让后续批注整体下沉
+	const enclosing: ParsedAnnotation[] = [];
+	annotations.forEach(annotation => {
+		while (enclosing.length > 0 && enclosing[enclosing.length - 1].to <= annotation.from) enclosing.pop();
+		annotation.depth = enclosing.length;
+		enclosing.push(annotation);
+	});
+
+	return { annotations, errors };
+}
+
+/**
+ * 去掉文本中（嵌套）批注的开始/闭合标签，只保留可见原文
+ */
+export function stripAnnotationTags(text: string): string {
+	const tags: TextRange[] = [];
+	parseAnnotations(text).annotations.forEach(annotation => {
+		tags.push(annotation.openTag, annotation.closeTag);
+	});
+	if (tags.length === 0) return text;
+
+	tags.sort((a, b) => a.from - b.from);
+	let result = "";
+	let lastIndex = 0;
+	tags.forEach(tag => {
+		result += text.slice(lastIndex, tag.from);
+		lastIndex = tag.to;
+	});
+	return result + text.slice(lastIndex);
+}
+
+export function buildAnnotationClass(color: string, extraClasses: string[] = []): string {
+	return [ANNOTATION_CLASS, color, ...extraClasses].filter(Boolean).join(" ");
+}
+
+function serializeAttribute(attribute: AnnotationAttribute): string {
+	if (attribute.value === null) return ` ${attribute.name}`;
+	const value = attribute.quote === "\"" ? attribute.value : attribute.value.replace(/"/g, "&quot;");
+	return ` ${attribute.name}="${value}"`;
+}
+
+/**
+ * 设置（value 为 null 时删除）一个额外属性，值会按 data-note 的规则转义；已有属性原位替换，新属性追加到末尾
+ */
+export function withAttribute(attributes: AnnotationAttribute[], name: string, value: string | null): AnnotationAttribute[] {
+	const next = attributes.slice();
+	const index = next.findIndex(attr => attr.name === name);
+	if (value === null) {
+		if (index !== -1) next.splice(index, 1);
+		return next;
+	}
+	const attribute: AnnotationAttribute = { name, value: escapeDataNote(value), quote: "\"", valueRange: null };
+	if (index === -1) next.push(attribute);
+	else next[index] = attribute;
+	return next;
+}
+
+/**
+ * 读取额外属性并解码；属性不存在或为布尔属性时返回 null
+ */
+export function getAttributeValue(attributes: AnnotationAttribute[], name: string): string | null {
+	const value = attributes.find(attr => attr.name === name)?.value;
+	return value === undefined || value === null ? null : decodeDataNote(value);
+}
+
+/**
+ * 生成规范格式的开始标签：class 在前，data-note 随后，其余属性保持原顺序
+ */
+export function buildAnnotationOpenTag(options: {
+	color: string;
+	note: string;
+	classes?: string[];
+	attributes?: AnnotationAttribute[];
+}): string {
+	const extras = (options.attributes ?? []).map(serializeAttribute).join("");
+	return `<span class="${buildAnnotationClass(options.color, options.classes)}" data-note="${escapeDataNote(options.note)}"${extras}>`;
+}
+
+export function buildAnnotationHtml(options: {
+	color: string;
+	note: string;
+	text: string;
+	classes?: string[];
+	attributes?: AnnotationAttribute[];
+}): string {
+	return `${buildAnnotationOpenTag(options)}${options.text}</span>`;
+}
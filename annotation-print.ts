@@ -0,0 +1,28 @@
+import { findRenderedAnnotations } from "./annotation-reading";
+
+/**
+ * 打印 / 导出 PDF 时批注的呈现方式：
+ * - endnotes：正文编号，文末附“批注”一节
+ * - footnotes：正文编号，批注紧跟在所在段落（块）之后
+ * - hide：不输出批注内容
+ */
+export type PrintNoteMode = "endnotes" | "footnotes" | "hide";
+
+export type PrintNote = {
+	number: number;
+	/** 批注开始标签在全文中的偏移 */
+	from: number;
+	note: string;
+};
+
+/**
+ * 按出现顺序为有内容的批注编号；空批注不编号
+ */
+export function collectPrintNotes(text: string): PrintNote[] {
+	const notes: PrintNote[] = [];
+	findRenderedAnnotations(text).forEach(annotation => {
+		if (annotation.note.trim() === "") return;
+		notes.push({ number: notes.length + 1, from: annotation.from, note: annotation.note });
+	});
+	return notes;
+}
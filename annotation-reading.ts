@@ -0,0 +1,76 @@
+import { findCodeRanges } from "./annotation-import";
+import { getAnnotationMetadata } from "./annotation-metadata";
+import { decodeDataNote, parseAnnotations, type ParsedAnnotation } from "./annotation-parser";
+
+/**
+ * 记录批注在源文件中的位置。from 会因前面的编辑而失效，
+ * 因此同时记录 ID（有时）或批注内容与原文，用于重新定位
+ */
+export type AnnotationLocator = {
+	from: number;
+	id?: string | null;
+	note?: string;
+	text?: string;
+};
+
+export function createAnnotationLocator(annotation: ParsedAnnotation, from: number = annotation.from): AnnotationLocator {
+	return { from, id: getAnnotationMetadata(annotation.attributes).id, note: annotation.note, text: annotation.text };
+}
+
+/**
+ * 按记录重新定位批注：优先取 from 处且身份一致的批注，否则取身份一致且离 from 最近的批注。
+ * 拆分为多段的批注共用 ID，因此同样按距离选择。只有 from 的记录按位置精确匹配
+ */
+export function findLocatedAnnotation(annotations: ParsedAnnotation[], locator: AnnotationLocator): ParsedAnnotation | null {
+	const atOffset = annotations.find(annotation => annotation.from === locator.from) ?? null;
+	if (!locator.id && locator.note === undefined) return atOffset;
+
+	const matches = (annotation: ParsedAnnotation) => locator.id
+		? getAnnotationMetadata(annotation.attributes).id === locator.id
+		: annotation.note === locator.note && annotation.text === locator.text;
+	if (atOffset && matches(atOffset)) return atOffset;
+
+	let closest: ParsedAnnotation | null = null;
+	for (const annotation of annotations) {
+		if (!matches(annotation)) continue;
+		if (!closest || Math.abs(annotation.from - locator.from) < Math.abs(closest.from - locator.from)) closest = annotation;
+	}
+	return closest;
+}
+
+/**
+ * 阅读模式中实际渲染为元素的批注：排除代码中的批注，按开始标签排序（与 DOM 中的文档顺序一致）
+ */
+export function findRenderedAnnotations(text: string): ParsedAnnotation[] {
+	const codeRanges = findCodeRanges(text);
+	return parseAnnotations(text).annotations
+		.filter(annotation => !codeRanges.some(range => range.from <= annotation.from && annotation.from < range.to))
+		.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * 第 line 行（从 0 开始）行首在全文中的偏移
+ */
+export function getLineOffset(text: string, line: number): number {
+	let offset = 0;
+	for (let i = 0; i < line; i++) {
+		const next = text.indexOf("\n", offset);
+		if (next === -1) return text.length;
+		offset = next + 1;
+	}
+	return offset;
+}
+
+/**
+ * 实时预览中批注元素的属性：data-note 之外，同时带上元数据、回复与状态等 data-* 属性，
+ * 使悬浮框和样式（如已解决批注）与阅读模式保持一致
+ */
+export function getDecorationAttributes(annotation: ParsedAnnotation): Record<string, string> {
+	// 不设置 tabindex：编辑器内可聚焦的元素会在点击时夺走焦点，光标无法放入批注正文，且 Tab 在编辑器中用于缩进。
+	// 编辑模式下的键盘用户通过光标所在批注使用朗读与跳转命令；阅读模式由后处理器单独加入 Tab 顺序
+	const attributes: Record<string, string> = { "data-note": annotation.note, role: "mark" };
+	annotation.attributes.forEach(attr => {
+		if (attr.value !== null && attr.name.startsWith("data-")) attributes[attr.name] = decodeDataNote(attr.value);
+	});
+	return attributes;
+}
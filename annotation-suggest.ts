@@ -0,0 +1,78 @@
+/**
+ * 批注输入框中的链接 / 标签补全：光标前的 [[路径#标题 或 #标签
+ * - link：from 为 "[[" 的位置；path 与 heading 按第一个 # 拆分，heading 为 null 表示尚未输入 #
+ * - tag：from 为 "#" 的位置，query 为已输入的标签名
+ */
+export type SuggestTrigger =
+	| { type: "link"; from: number; to: number; path: string; heading: string | null }
+	| { type: "tag"; from: number; to: number; query: string };
+
+export type SuggestEdit = {
+	text: string;
+	cursor: number;
+};
+
+// 标签名不能包含空白与大部分标点（允许 _ - / 以及各种文字）
+const TAG_QUERY_REGEX = /(?:^|\s)#([^\s#!"$%&'()*+,.:;<=>?@[\]^`{|}~\\]*)$/;
+
+export function findSuggestTrigger(text: string, cursor: number): SuggestTrigger | null {
+	const lineStart = text.lastIndexOf("\n", cursor - 1) + 1;
+	const before = text.slice(lineStart, cursor);
+
+	const open = before.lastIndexOf("[[");
+	if (open !== -1 && before.indexOf("]]", open) === -1) {
+		const query = before.slice(open + 2);
+		// 正在输入别名或嵌套括号时不再提示
+		if (/[|[\]]/.test(query)) return null;
+		const hash = query.indexOf("#");
+		return {
+			type: "link",
+			from: lineStart + open,
+			to: cursor,
+			path: hash === -1 ? query : query.slice(0, hash),
+			heading: hash === -1 ? null : query.slice(hash + 1),
+		};
+	}
+
+	const match = TAG_QUERY_REGEX.exec(before);
+	if (match) {
+		const query = match[1];
+		return { type: "tag", from: cursor - query.length - 1, to: cursor, query };
+	}
+	return null;
+}
+
+/**
+ * 按查询词筛选并排序：名称以查询开头的优先，其次名称包含，最后完整文本包含；不区分大小写
+ */
+export function rankSuggestions<T>(items: T[], query: string, getText: (item: T) => string, limit: number): T[] {
+	const q = query.trim().toLowerCase();
+	if (!q) return items.slice(0, limit);
+
+	const scored: { item: T; score: number; length: number }[] = [];
+	items.forEach(item => {
+		const text = getText(item).toLowerCase();
+		const name = text.slice(text.lastIndexOf("/") + 1);
+		const score = name.startsWith(q) ? 0 : name.includes(q) ? 1 : text.includes(q) ? 2 : -1;
+		if (score >= 0) scored.push({ item, score, length: text.length });
+	});
+	return scored
+		.sort((a, b) => a.score - b.score || a.length - b.length)
+		.slice(0, limit)
+		.map(entry => entry.item);
+}
+
+/**
+ * 用选中的补全项替换触发文本：链接补全为 [[目标]]（覆盖已有的 ]]），标签补全为 #标签 并补一个空格
+ */
+export function applySuggestion(text: string, trigger: SuggestTrigger, value: string): SuggestEdit {
+	if (trigger.type === "link") {
+		const end = text.startsWith("]]", trigger.to) ? trigger.to + 2 : trigger.to;
+		const insert = `[[${value}]]`;
+		return { text: text.slice(0, trigger.from) + insert + text.slice(end), cursor: trigger.from + insert.length };
+	}
+
+	const next = text.charAt(trigger.to);
+	const insert = next && /\s/.test(next) ? `#${value}` : `#${value} `;
+	return { text: text.slice(0, trigger.from) + insert + text.slice(trigger.to), cursor: trigger.from + insert.length };
+}
@@ -0,0 +1,55 @@
+import { getAttributeValue, withAttribute, type AnnotationAttribute } from "./annotation-parser";
+
+export type AnnotationReply = {
+	author: string;
+	/** ISO 8601 时间戳 */
+	created: string;
+	/** Markdown 文本 */
+	text: string;
+};
+
+/**
+ * 回复以 JSON 数组存放在 data-replies 属性中，与 data-note 使用相同的转义规则，
+ * 因此换行、引号、竖线等字符都不会破坏 HTML 或 Markdown 表格
+ */
+export const REPLIES_ATTRIBUTE = "data-replies";
+
+/**
+ * 解析回复 JSON；格式错误时返回空列表，单条回复缺少字段时按空字符串处理
+ */
+export function parseReplies(json: string | null | undefined): AnnotationReply[] {
+	if (!json) return [];
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch {
+		return [];
+	}
+	if (!Array.isArray(data)) return [];
+
+	const replies: AnnotationReply[] = [];
+	for (const item of data as Partial<AnnotationReply>[]) {
+		if (!item || typeof item.text !== "string") continue;
+		replies.push({
+			author: typeof item.author === "string" ? item.author : "",
+			created: typeof item.created === "string" ? item.created : "",
+			text: item.text,
+		});
+	}
+	return replies;
+}
+
+export function serializeReplies(replies: AnnotationReply[]): string {
+	return JSON.stringify(replies.map(reply => ({ author: reply.author, created: reply.created, text: reply.text })));
+}
+
+export function getAnnotationReplies(attributes: AnnotationAttribute[]): AnnotationReply[] {
+	return parseReplies(getAttributeValue(attributes, REPLIES_ATTRIBUTE));
+}
+
+/**
+ * 写入回复列表；列表为空时移除 data-replies 属性
+ */
+export function withAnnotationReplies(attributes: AnnotationAttribute[], replies: AnnotationReply[]): AnnotationAttribute[] {
+	return withAttribute(attributes, REPLIES_ATTRIBUTE, replies.length > 0 ? serializeReplies(replies) : null);
+}
@@ -1,18 +1,40 @@
-﻿import { App, Component, Editor, MarkdownView, Modal, Plugin, Menu, MenuItem, Notice, addIcon, MarkdownRenderer, TFile, PluginSettingTab, Setting } from 'obsidian';
+﻿import { App, Component, Editor, EditorChange, HoverParent, HoverPopover, ItemView, Keymap, MarkdownFileInfo, MarkdownPostProcessorContext, MarkdownRenderChild, MarkdownView, Modal, Plugin, Menu, MenuItem, Notice, Platform, addIcon, removeIcon, debounce, getAllTags, moment, normalizePath, MarkdownRenderer, TFile, TFolder, PluginSettingTab, Setting, WorkspaceLeaf, editorInfoField, setIcon } from 'obsidian';
 import { EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate } from "@codemirror/view";
-import { RangeSetBuilder } from "@codemirror/state";
-import { decodeDataNote, escapeDataNote, findAnnotationRangeAtOffset, getAutoNormalizeAction, normalizeAnnotationsInText, normalizeTextWithCursor, type AnnotationOffsetRange } from "./annotation-normalization";
+import type { Range } from "@codemirror/state";
+import { findAnnotationsAtOffset, planAnnotationSegments } from "./annotation-nesting";
+import { buildAnnotationClass, buildAnnotationHtml, buildAnnotationOpenTag, decodeDataNote, parseAnnotations, stripAnnotationTags, type AnnotationAttribute, type AnnotationParseErrorReason, type ParsedAnnotation } from "./annotation-parser";
+import { STATUS_ATTRIBUTE, formatTimestamp, generateAnnotationId, getAnnotationMetadata, getAnnotationStatus, readAnnotationMetadata, withAnnotationMetadata, withAnnotationStatus, type AnnotationMetadata, type AnnotationStatus } from "./annotation-metadata";
+import { REPLIES_ATTRIBUTE, getAnnotationReplies, parseReplies, withAnnotationReplies, type AnnotationReply } from "./annotation-thread";
+import { collectAnnotationIssuesInText, collectAnnotationsInText, findAnnotationRangeAtOffset, getAutoNormalizeAction, normalizeAnnotationsInText, normalizeTextWithCursor, type AnnotationListEntry, type AnnotationOffsetRange } from "./annotation-normalization";
+import { AnnotationIndex } from "./annotation-index";
+import { BUILTIN_PALETTE, buildPaletteCss, createPaletteColor, moveColor, normalizePalette, type PaletteColor } from "./annotation-palette";
+import { filterAnnotatedFiles, listAnnotatedFolders, type AnnotatedFile, type AnnotationFilter } from "./annotation-filter";
+import { convertAnnotationsToFootnotes, convertFootnotesToAnnotations } from "./annotation-footnote";
+import { createAnnotationLocator, findLocatedAnnotation, findRenderedAnnotations, getDecorationAttributes, getLineOffset, type AnnotationLocator } from "./annotation-reading";
+import { collectPrintNotes, type PrintNote, type PrintNoteMode } from "./annotation-print";
+import { IMPORT_SOURCES, convertForeignAnnotations, type ImportConversion, type ImportSource } from "./annotation-import";
+import { EXPORT_FILE_EXTENSIONS, buildExportRecords, formatAnnotationExport, sanitizeFileName, type ExportFormat, type ExportScope } from "./annotation-export";
+import { extractNoteLinks, renameLinksInAnnotations, type LinkRename } from "./annotation-links";
+import { DEFAULT_EXTRACT_FILE_NAME, DEFAULT_EXTRACT_TEMPLATE, buildExtractFileName, linkNoteToExtract, renderExtractTemplate, type ExtractLinkMode, type ExtractVariables } from "./annotation-extract";
+import { applySuggestion, findSuggestTrigger, rankSuggestions, type SuggestTrigger } from "./annotation-suggest";
+import { findAdjacentAnnotation, type NavigationDirection } from "./annotation-navigation";
+import { TOOLTIP_GAP, VIEWPORT_MARGIN, computeTooltipPosition } from "./tooltip-position";
 import { formatModalKeyHint, getShortcutLabel, isShortcutEvent, normalizeShortcutSettings, type ModalShortcut } from "./modal-shortcuts";
 
 type AnnotationColor = string;
 type IconTooltipTrigger = 'hover' | 'click';
 type SubmenuCapableMenuItem = MenuItem & { setSubmenu?: () => Menu };
 
-// 定义 HTML 标签的正则结构 (支持多行 + 颜色 class)
-const COMMENT_REGEX = /<span class="ob-comment(?:\s+([\w-]+))?" data-note="([\s\S]*?)">([\s\S]*?)<\/span>/g;
-
 const DEFAULT_COLOR: AnnotationColor = "";
 const AUTO_NORMALIZE_IDLE_MS = 1000;
+const VIEW_TYPE_ANNOTATION_LIST = "hover-annotations-list";
+const VIEW_TYPE_ANNOTATION_BROWSER = "hover-annotations-browser";
+const VIEW_TYPE_ANNOTATION_BACKLINKS = "hover-annotations-backlinks";
+const BROWSER_ALL_COLORS = "*";
+const LIST_REFRESH_DEBOUNCE_MS = 300;
+const LIST_NOTE_PREVIEW_LENGTH = 120;
+const INDEX_SAVE_DEBOUNCE_MS = 2000;
+const INDEX_FILE_NAME = "annotation-index.json";
 
 type Locale = 'en' | 'zh';
 
@@ -31,33 +53,82 @@ const STRINGS = {
 		colorBlue: "Blue",
 		colorPurple: "Purple",
 		colorGray: "Gray",
+		colorNew: "New color",
 
 		cmdAddDefault: "Add Annotation (Default)",
 		cmdAddWithColor: (color: string) => `Add Annotation (${color})`,
 		cmdToggleVisibility: "Show/Hide Annotation Styles",
+		cmdToggleResolvedVisibility: "Show/Hide Resolved Annotations",
+		cmdResolveCurrent: "Resolve Current Annotation",
+		cmdReopenCurrent: "Reopen Current Annotation",
 		cmdEditCurrent: "Edit Current Annotation",
+		cmdReplyCurrent: "Reply to Current Annotation",
 		cmdDeleteCurrent: "Delete Current Annotation",
 		cmdNormalizeCurrent: "Fix Current File Annotation data-note",
 		cmdNormalizeVault: "Fix All Markdown Annotation data-note",
+		cmdOpenList: "Open Annotations Panel",
+		cmdOpenBrowser: "Open Vault Annotation Browser",
+		cmdOpenBacklinks: "Open Annotation Backlinks",
+		cmdExport: "Export Annotations...",
+		cmdCopyCurrent: "Copy Current File Annotations as Markdown",
+		cmdImportCurrent: "Convert Other Annotation Syntaxes in Current File",
+		cmdImportVault: "Convert Other Annotation Syntaxes in All Files",
+		cmdToFootnotes: "Convert Annotations to Footnotes (Selection or File)",
+		cmdFromFootnotes: "Convert Footnotes to Annotations (Selection or File)",
+		cmdNextAnnotation: "Go to Next Annotation",
+		cmdReadAnnotation: "Read Annotation at Cursor Aloud",
+		cmdPreviousAnnotation: "Go to Previous Annotation",
+		cmdExtractCurrent: "Extract Current Annotation to Note",
 
 		noticeHidden: "Annotation styles are now hidden",
 		noticeShown: "Annotation styles are now visible",
+		noticeResolvedHidden: "Resolved annotations are now hidden",
+		noticeResolvedShown: "Resolved annotations are now visible",
 		noticeNoAnnotation: "No annotation at cursor",
+		noticeNoAnnotationToNavigate: "No annotations to go to in this document",
+		announceAnnotation: (text: string) => `Annotation on "${text}": `,
+		announceReplies: (count: number) => `${count} ${count === 1 ? "reply" : "replies"}: `,
+		noticeNavigationWrappedTop: "Reached the end, continued from the top",
+		noticeNavigationWrappedBottom: "Reached the beginning, continued from the bottom",
 		noticeNeedSelection: "Please select some text first",
-		noticeNoNested: "Nested annotations are not supported; remove the old one first",
 		noticeNoFixNeeded: "No annotations need fixing",
 		noticeFixedCurrent: "Annotations in this file are now safe-formatted",
 		noticeScanStart: "Scanning vault, please wait...",
 		noticeFixedVault: (count: number) => `Successfully fixed annotations in ${count} Markdown file(s)`,
+		noticeAnnotationLinksUpdated: (count: number) => `Updated ${count} link(s) inside annotations after the rename`,
+		noticeExportEmpty: "No annotations to export",
+		noticeExported: (path: string) => `Annotations exported to ${path}`,
+		noticeExportFailed: (error: string) => `Export failed: ${error}`,
+		noticeExtracted: (path: string) => `Annotation extracted to ${path}`,
+		noticeExtractFailed: (error: string) => `Could not extract the annotation: ${error}`,
+		extractFallbackName: "Annotation",
+		noticeImportNone: "No highlights or comments in other syntaxes found",
+		noticeImported: (count: number) => `Converted ${count} annotation(s)`,
+		noticeNoAnnotationToConvert: "No annotations with notes to convert",
+		noticeNoFootnoteToConvert: "No footnotes to convert",
+		noticeConvertedToFootnotes: (count: number) => `Converted ${count} annotation(s) to footnotes`,
 		noticeNeedSelectionAdd: "Please select text to add a new annotation",
 		noticeCopied: "Annotations copied to clipboard!",
+		noticeNoteCopied: "Note copied to clipboard",
+		noticeCopyFailed: "Could not copy to the clipboard",
+		noticeSaveFailed: "Could not save the annotation",
+		tooltipCopy: "Copy note",
+		tooltipPin: "Pin as card",
+		tooltipEdit: "Edit note",
+		inlineEditSave: "Save",
+		cardReveal: "Go to annotation",
+		cardClose: "Close card",
 		noticeOpenDoc: "Please open a Markdown document first",
 		noticeShortcutConflict: "Submit shortcut can't match newline shortcut. Submit shortcut has been reset to None.",
 
 		ctxAdd: "Add Annotation",
 		ctxEdit: "Edit Annotation",
+		ctxReply: "Reply to Annotation",
+		ctxResolve: "Mark as Resolved",
+		ctxReopen: "Reopen Annotation",
 		ctxChangeColor: " - Change Color",
 		ctxDelete: "Delete Annotation",
+		ctxExtract: "Extract to Note",
 
 		modalTitleEdit: "Edit Annotation",
 		modalTitleNew: "Enter Annotation Content",
@@ -65,6 +136,12 @@ const STRINGS = {
 		modalCancel: "Cancel",
 		modalConfirm: "Confirm",
 		modalColorCurrent: "Current color: ",
+		modalReplies: (count: number) => `Replies (${count})`,
+		modalReplyPlaceholder: "Write a reply...",
+		modalPreviewToggle: "Toggle Markdown preview",
+		modalTabWrite: "Write",
+		modalTabPreview: "Preview",
+		modalPreviewEmpty: "Nothing to preview",
 		modalShortcutNone: "None",
 		modalShortcutEnter: "Enter",
 		modalShortcutShiftEnter: "Shift+Enter",
@@ -79,13 +156,45 @@ const STRINGS = {
 		batchConfirm: (count: number) => `Confirm fix (${count} files)`,
 		batchCancel: "Cancel",
 
+		importTitle: "Convert to annotations",
+		importSummary: (count: number) => `Found ${count} highlight(s) or comment(s) in other syntaxes. Review the changes below.`,
+		importWarning: "Converting rewrites the original syntax. Please back up your vault first.",
+		importLine: (line: number) => `Line ${line}`,
+		importMore: (count: number) => `...and ${count} more`,
+		importConfirm: (count: number) => `Convert (${count} files)`,
+		importSourceHighlightFootnote: "==Highlight== with footnote",
+		importSourceComment: "%%Comment%% after a highlight or word",
+		importSourceMark: "<mark> tags",
+		importSourceAbbr: "<abbr title> tags",
+		importSourceSpanTitle: "<span title> tags",
+
 			settingsGeneral: "General settings",
 			settingsAppearance: "Appearance",
 			settingsInteraction: "Interaction",
 			settingsAdvanced: "Advanced & maintenance",
 
+		settingPaletteHeading: "Color palette",
+		settingPaletteDesc: "Add, rename, reorder or delete annotation colors. Each color is saved as a CSS class on the annotation.",
+		settingPaletteClass: (value: string) => `Class: ${value}`,
+		settingPaletteDefaultClass: "Default color (no class)",
+		settingPaletteMoveUp: "Move up",
+		settingPaletteMoveDown: "Move down",
+		settingPaletteDelete: "Delete color",
+		settingPaletteAddName: "Add color",
+		settingPaletteAddDesc: "The class name is derived from the name, e.g. \"Source needed\" becomes source-needed.",
+		settingPaletteAddPlaceholder: "Color name, e.g. Question",
+		settingPaletteAddButton: "Add",
 		settingDefaultColorName: "Default annotation color",
 		settingDefaultColorDesc: "Initial color when creating a new annotation.",
+		settingMetadataName: "Record annotation metadata",
+		settingMetadataDesc: "Write a stable ID and created/edited timestamps (data-id, data-created, data-modified) when adding or editing annotations.",
+		settingAuthorName: "Author name",
+		settingAuthorDesc: "Written as data-author on new annotations, so collaborators can see who wrote a note. Leave empty to omit.",
+		settingAuthorPlaceholder: "e.g. Alice",
+		settingDimResolvedName: "Dim resolved annotations",
+		settingDimResolvedDesc: "Render resolved annotations faded so open ones stand out.",
+		settingHideResolvedName: "Hide resolved annotations",
+		settingHideResolvedDesc: "Hide the styling and tooltip of resolved annotations only; open annotations stay visible.",
 		settingHideDefaultName: "Hide annotations by default",
 		settingHideDefaultDesc: "On app launch, hide all annotation styling for a clean reading mode.",
 		settingUnderlineName: "Show underline",
@@ -104,12 +213,32 @@ const STRINGS = {
 			settingDarkOpacityDesc: "Adjust highlight depth for dark themes (0% - 100%).",
 		settingTooltipWidthName: "Tooltip max width",
 		settingTooltipWidthDesc: "Limit tooltip width (px).",
+		settingShowDelayName: "Tooltip show delay",
+		settingShowDelayDesc: "Milliseconds the pointer must rest on an annotation before its tooltip appears. 0 shows it immediately.",
+		settingHideDelayName: "Tooltip hide delay",
+		settingHideDelayDesc: "Milliseconds the tooltip stays open after the pointer leaves the annotation, so you can move into it to click links or copy the note.",
+		settingNavigationColorName: "Navigation color filter",
+		settingNavigationColorDesc: "The next / previous annotation commands only stop at annotations of this color.",
+		settingNavigationTooltipName: "Show tooltip after navigating",
+		settingNavigationTooltipDesc: "In reading view, open the tooltip of the annotation the next / previous annotation commands land on. In the editor the cursor expands the annotation source instead.",
 		settingSubmitShortcutName: "Submit shortcut",
 		settingSubmitShortcutDesc: "Keyboard shortcut to submit the annotation modal. None means confirm by button only.",
 		settingNewlineShortcutName: "Newline shortcut",
 		settingNewlineShortcutDesc: "Keyboard shortcut to insert a newline inside the annotation modal.",
 		settingAutoNormalizeAfterExitName: "Auto-normalize after leaving annotation source",
 		settingAutoNormalizeAfterExitDesc: "About 1 second after the cursor leaves annotation source, convert unsafe raw newlines inside annotation data-note values to &#10;.",
+		settingUpdateLinksName: "Update links in annotations on rename",
+		settingUpdateLinksDesc: "Obsidian does not update links inside annotation notes and replies. When a file is renamed or moved, rewrite [[links]] and Markdown links in annotations that point to it.",
+		settingExtractFolderName: "Extracted note folder",
+		settingExtractFolderDesc: "Where \"Extract to note\" creates new notes. Leave empty to use Obsidian's default location for new notes.",
+		settingExtractFileNameName: "Extracted note file name",
+		settingExtractFileNameDesc: "File name pattern for extracted notes. Variables: {{text}}, {{note}}, {{title}}, {{date}}, {{time}}.",
+		settingExtractTemplateName: "Extracted note template",
+		settingExtractTemplateDesc: "Content of extracted notes. Variables: {{quote}} (annotated text as a quote), {{text}}, {{note}}, {{source}} (link to the source file), {{title}}, {{date}}, {{time}}.",
+		settingExtractLinkName: "Link back from the annotation",
+		settingExtractLinkDesc: "After extracting, add a link to the new note to the annotation, or replace the annotation's note with it.",
+		settingExtractLinkAppend: "Append link",
+		settingExtractLinkReplace: "Replace note",
 		settingFontAdjustName: "Adjust font size",
 		settingFontAdjustDescPrefix: "Adjust annotation font by steps (max ±3). Current: ",
 		settingFontStepDefault: "Default",
@@ -122,15 +251,68 @@ const STRINGS = {
 		settingFixDataName: "One-click repair",
 		settingFixDataDesc: "Scan all files and fix legacy annotation format issues.",
 		settingFixDataButton: "Start scan & fix",
-		settingExportName: "Export annotations (current file)",
-		settingExportDesc: "Extract all annotations from the current document to clipboard.",
-		settingExportButton: "Copy to clipboard",
-
-		exportHeading: "## Annotations Export\n\n",
+		settingExportName: "Export annotations",
+		settingExportDesc: "Export the annotations of the current file, a folder or the whole vault as a Markdown note, CSV, JSON or an HTML report.",
+		settingExportButton: "Export...",
+		settingExportFolderName: "Export folder",
+		settingExportFolderDesc: "Vault folder where exported files are saved. Leave empty for the vault root.",
+		settingPrintNotesName: "Annotations in PDF export and print",
+		settingPrintNotesDesc: "Number each annotation and print its note, since tooltips are lost on paper. Only affects PDF export and printing; takes effect the next time a note is rendered.",
+		settingPrintNotesEndnotes: "Numbered endnotes",
+		settingPrintNotesFootnotes: "Numbered notes below each block",
+		settingPrintNotesHide: "Hide",
+		printNotesTitle: "Annotations",
+		settingImportName: "Convert other annotation syntaxes",
+		settingImportDesc: "Scan all files for highlights and comments written in the syntaxes enabled below and convert them into annotations.",
+		settingImportButton: "Scan & convert",
+
+		exportTitle: "Annotations Export",
+		exportModalTitle: "Export annotations",
 		exportOriginal: "Original",
 		exportAnnotation: "Annotation",
+		exportReply: "Reply",
+		exportLine: (line: number) => `line ${line}`,
+		exportScopeName: "Scope",
+		exportScopeFile: "Current file",
+		exportScopeFolder: "Folder",
+		exportScopeVault: "Entire vault",
+		exportFolderName: "Folder",
+		exportFormatName: "Format",
+		exportFormatMarkdown: "Markdown note",
+		exportFormatCsv: "CSV",
+		exportFormatJson: "JSON",
+		exportFormatHtml: "HTML report",
+		exportSave: "Save to vault",
+		exportCopy: "Copy to clipboard",
 
 		menuAddTitle: "Add Annotation",
+
+		listViewTitle: "Annotations",
+		listNoFile: "Open a Markdown document to see its annotations.",
+		listEmpty: "No annotations in this document.",
+		listCount: (count: number) => `${count} annotation(s)`,
+		listEmptyNote: "(empty note)",
+		metaCreated: (date: string) => `created ${date}`,
+		metaModified: (date: string) => `edited ${date}`,
+		metaReplies: (count: number) => `${count} ${count === 1 ? "reply" : "replies"}`,
+		metaResolved: "resolved",
+		listIssue: (line: number) => `⚠️ Line ${line}: `,
+		issueUnterminatedTag: "annotation tag is not terminated",
+		issueUnclosedSpan: "annotation has no closing </span>",
+		issueMissingNote: "annotation is missing data-note",
+
+		browserTitle: "Annotation Browser",
+		browserSearchPlaceholder: "Search highlighted text and notes...",
+		browserAllColors: "All colors",
+		browserAllFolders: "Entire vault",
+		browserRescan: "Rescan vault",
+		browserScanning: "Scanning vault...",
+		browserEmpty: "No annotations match the current filters.",
+		browserFileCount: (count: number) => `in ${count} file(s)`,
+
+		backlinksTitle: "Annotation Backlinks",
+		backlinksNoFile: "Open a file to see the annotations that link to it.",
+		backlinksEmpty: "No annotations link to this file.",
 	},
 	zh: {
 		settingLanguageName: "语言",
@@ -146,33 +328,82 @@ const STRINGS = {
 		colorBlue: "蓝色",
 		colorPurple: "紫色",
 		colorGray: "灰色",
+		colorNew: "新颜色",
 
 		cmdAddDefault: "添加批注（默认）",
 		cmdAddWithColor: (color: string) => `添加批注（${color}）`,
 		cmdToggleVisibility: "显示/隐藏批注样式",
+		cmdToggleResolvedVisibility: "显示/隐藏已解决的批注",
+		cmdResolveCurrent: "将当前批注标记为已解决",
+		cmdReopenCurrent: "重新打开当前批注",
 		cmdEditCurrent: "编辑当前批注",
+		cmdReplyCurrent: "回复当前批注",
 		cmdDeleteCurrent: "删除当前批注",
 		cmdNormalizeCurrent: "修复当前文件的批注 data-note",
 		cmdNormalizeVault: "修复所有 Markdown 文件的批注 data-note",
+		cmdOpenList: "打开批注面板",
+		cmdOpenBrowser: "打开全库批注浏览器",
+		cmdOpenBacklinks: "打开批注反向链接",
+		cmdExtractCurrent: "将当前批注提取为笔记",
+		cmdExport: "导出批注...",
+		cmdCopyCurrent: "复制当前文件的批注（Markdown）",
+		cmdImportCurrent: "转换当前文件中其他写法的批注",
+		cmdImportVault: "转换所有文件中其他写法的批注",
+		cmdToFootnotes: "将批注转换为脚注（选区或整个文件）",
+		cmdFromFootnotes: "将脚注转换为批注（选区或整个文件）",
+		cmdNextAnnotation: "跳转到下一条批注",
+		cmdReadAnnotation: "朗读光标处的批注",
+		cmdPreviousAnnotation: "跳转到上一条批注",
 
 		noticeHidden: "批注样式已隐藏",
 		noticeShown: "批注样式已显示",
+		noticeResolvedHidden: "已解决的批注已隐藏",
+		noticeResolvedShown: "已解决的批注已显示",
 		noticeNoAnnotation: "光标处没有批注",
+		noticeNoAnnotationToNavigate: "当前文档中没有可跳转的批注",
+		announceAnnotation: (text: string) => `“${text}”的批注：`,
+		announceReplies: (count: number) => `${count} 条回复：`,
+		noticeNavigationWrappedTop: "已到达文末，从开头继续",
+		noticeNavigationWrappedBottom: "已到达开头，从文末继续",
 		noticeNeedSelection: "请先选择一段文本",
-		noticeNoNested: "不支持在已有批注上嵌套批注，请先删除旧批注",
 		noticeNoFixNeeded: "未发现需要修复的批注",
 		noticeFixedCurrent: "当前文件的批注已转换为安全格式",
 		noticeScanStart: "开始扫描库文件，请稍候...",
 		noticeFixedVault: (count: number) => `已成功修复 ${count} 个 Markdown 文件的批注`,
+		noticeAnnotationLinksUpdated: (count: number) => `已更新批注中的 ${count} 个链接`,
+		noticeExportEmpty: "没有可导出的批注",
+		noticeExported: (path: string) => `批注已导出到 ${path}`,
+		noticeExportFailed: (error: string) => `导出失败：${error}`,
+		noticeExtracted: (path: string) => `批注已提取到 ${path}`,
+		noticeExtractFailed: (error: string) => `无法提取批注：${error}`,
+		extractFallbackName: "批注",
+		noticeImportNone: "未发现其他写法的高亮或注释",
+		noticeImported: (count: number) => `已转换 ${count} 条批注`,
+		noticeNoAnnotationToConvert: "没有可转换的批注",
+		noticeNoFootnoteToConvert: "没有可转换的脚注",
+		noticeConvertedToFootnotes: (count: number) => `已将 ${count} 条批注转换为脚注`,
 		noticeNeedSelectionAdd: "请先选择文本以添加新批注",
 		noticeCopied: "批注已复制到剪贴板！",
+		noticeNoteCopied: "批注内容已复制到剪贴板",
+		noticeCopyFailed: "无法复制到剪贴板",
+		noticeSaveFailed: "无法保存批注",
+		tooltipCopy: "复制批注",
+		tooltipPin: "固定为卡片",
+		tooltipEdit: "编辑批注",
+		inlineEditSave: "保存",
+		cardReveal: "跳转到批注",
+		cardClose: "关闭卡片",
 		noticeOpenDoc: "请先打开一个 Markdown 文档",
 		noticeShortcutConflict: "完成批注快捷键不能与换行快捷键相同，已自动重置为“无”。",
 
 		ctxAdd: "添加批注",
 		ctxEdit: "编辑批注",
+		ctxReply: "回复批注",
+		ctxResolve: "标记为已解决",
+		ctxReopen: "重新打开批注",
 		ctxChangeColor: " - 修改颜色",
 		ctxDelete: "删除批注",
+		ctxExtract: "提取为笔记",
 
 		modalTitleEdit: "编辑批注",
 		modalTitleNew: "输入批注内容",
@@ -180,6 +411,12 @@ const STRINGS = {
 		modalCancel: "取消",
 		modalConfirm: "确定",
 		modalColorCurrent: "当前颜色：",
+		modalReplies: (count: number) => `回复（${count}）`,
+		modalReplyPlaceholder: "输入回复...",
+		modalPreviewToggle: "切换 Markdown 预览",
+		modalTabWrite: "编辑",
+		modalTabPreview: "预览",
+		modalPreviewEmpty: "暂无可预览的内容",
 		modalShortcutNone: "无",
 		modalShortcutEnter: "Enter",
 		modalShortcutShiftEnter: "Shift+Enter",
@@ -194,13 +431,45 @@ const STRINGS = {
 		batchConfirm: (count: number) => `确认修复（${count} 个文件）`,
 		batchCancel: "取消",
 
+		importTitle: "转换为批注",
+		importSummary: (count: number) => `发现 ${count} 处其他写法的高亮或注释，请确认以下改动。`,
+		importWarning: "转换会改写原有写法，请先备份您的库。",
+		importLine: (line: number) => `第 ${line} 行`,
+		importMore: (count: number) => `……另有 ${count} 处`,
+		importConfirm: (count: number) => `确认转换（${count} 个文件）`,
+		importSourceHighlightFootnote: "==高亮== 加脚注",
+		importSourceComment: "高亮或词语后的 %%注释%%",
+		importSourceMark: "<mark> 标签",
+		importSourceAbbr: "<abbr title> 标签",
+		importSourceSpanTitle: "<span title> 标签",
+
 		settingsGeneral: "基础设置",
 		settingsAppearance: "外观样式",
 		settingsInteraction: "交互体验",
 		settingsAdvanced: "高级与维护",
 
+		settingPaletteHeading: "颜色方案",
+		settingPaletteDesc: "添加、重命名、排序或删除批注颜色。每种颜色以 CSS class 的形式写入批注。",
+		settingPaletteClass: (value: string) => `Class：${value}`,
+		settingPaletteDefaultClass: "默认颜色（无 class）",
+		settingPaletteMoveUp: "上移",
+		settingPaletteMoveDown: "下移",
+		settingPaletteDelete: "删除颜色",
+		settingPaletteAddName: "添加颜色",
+		settingPaletteAddDesc: "class 名由名称生成，例如 \"Source needed\" 会变为 source-needed；无法转换时使用 color-N。",
+		settingPaletteAddPlaceholder: "颜色名称，例如：疑问",
+		settingPaletteAddButton: "添加",
 		settingDefaultColorName: "默认批注颜色",
 		settingDefaultColorDesc: "新建批注时的初始选中颜色。",
+		settingMetadataName: "记录批注元数据",
+		settingMetadataDesc: "添加或编辑批注时写入固定 ID 与创建/修改时间（data-id、data-created、data-modified）。",
+		settingAuthorName: "作者名",
+		settingAuthorDesc: "新建批注时写入 data-author，方便协作者区分批注作者。留空则不写入。",
+		settingAuthorPlaceholder: "例如：小明",
+		settingDimResolvedName: "淡化已解决的批注",
+		settingDimResolvedDesc: "以较浅的样式显示已解决的批注，突出未解决的批注。",
+		settingHideResolvedName: "隐藏已解决的批注",
+		settingHideResolvedDesc: "仅隐藏已解决批注的样式与悬浮框，未解决的批注保持显示。",
 		settingHideDefaultName: "默认隐藏批注",
 		settingHideDefaultDesc: "Obsidian 启动时自动隐藏所有批注样式（纯净阅读模式）。",
 		settingUnderlineName: "显示下划线",
@@ -219,12 +488,32 @@ const STRINGS = {
 			settingDarkOpacityDesc: "调整深色主题下高亮背景的深浅 (0% - 100%)。",
 		settingTooltipWidthName: "Tooltip 最大宽度",
 		settingTooltipWidthDesc: "限制悬浮气泡的最大宽度 (px)。",
+		settingShowDelayName: "悬浮框显示延迟",
+		settingShowDelayDesc: "鼠标在批注上停留多少毫秒后显示悬浮框，0 为立即显示。",
+		settingHideDelayName: "悬浮框隐藏延迟",
+		settingHideDelayDesc: "鼠标离开批注后悬浮框保留的毫秒数，便于移入悬浮框点击链接或复制批注。",
+		settingNavigationColorName: "跳转颜色筛选",
+		settingNavigationColorDesc: "“跳转到下一条 / 上一条批注”命令只停在该颜色的批注上。",
+		settingNavigationTooltipName: "跳转后显示悬浮框",
+		settingNavigationTooltipDesc: "阅读视图中，跳转到批注后自动显示其悬浮框。编辑模式下光标所在的批注会直接展开源码。",
 		settingSubmitShortcutName: "完成批注快捷键",
 		settingSubmitShortcutDesc: "为批注弹窗设置完成快捷键；选择“无”时需点击“确定”。",
 		settingNewlineShortcutName: "换行快捷键",
 		settingNewlineShortcutDesc: "为批注弹窗设置换行快捷键。",
 		settingAutoNormalizeAfterExitName: "移出批注源码后自动规范化",
 		settingAutoNormalizeAfterExitDesc: "在光标移出批注源码约 1 秒后，将批注 data-note 中不安全的原始换行转换为 &#10;。",
+		settingUpdateLinksName: "重命名时更新批注中的链接",
+		settingUpdateLinksDesc: "Obsidian 不会更新批注内容与回复中的链接。文件重命名或移动后，自动改写批注中指向该文件的 [[链接]] 与 Markdown 链接。",
+		settingExtractFolderName: "提取笔记的文件夹",
+		settingExtractFolderDesc: "“提取为笔记”创建新笔记的位置。留空则使用 Obsidian 新建笔记的默认位置。",
+		settingExtractFileNameName: "提取笔记的文件名",
+		settingExtractFileNameDesc: "提取笔记的文件名模板。可用变量：{{text}}、{{note}}、{{title}}、{{date}}、{{time}}。",
+		settingExtractTemplateName: "提取笔记的模板",
+		settingExtractTemplateDesc: "提取笔记的内容。可用变量：{{quote}}（以引用格式显示的原文）、{{text}}、{{note}}、{{source}}（指向源文件的链接）、{{title}}、{{date}}、{{time}}。",
+		settingExtractLinkName: "在批注中链接新笔记",
+		settingExtractLinkDesc: "提取后在批注末尾追加指向新笔记的链接，或以该链接替换批注内容。",
+		settingExtractLinkAppend: "追加链接",
+		settingExtractLinkReplace: "替换批注内容",
 		settingFontAdjustName: "调节字体大小",
 		settingFontAdjustDescPrefix: "批注内容字体按档位调整（最多 ±3 档）。 当前：",
 		settingFontStepDefault: "默认",
@@ -237,33 +526,125 @@ const STRINGS = {
 		settingFixDataName: "一键修复数据",
 		settingFixDataDesc: "扫描库中文件并修复旧版批注的格式问题。",
 		settingFixDataButton: "开始扫描修复",
-		settingExportName: "导出所有批注（当前文件）",
-		settingExportDesc: "将当前文档的所有批注提取到剪贴板。",
-		settingExportButton: "复制到剪贴板",
-
-		exportHeading: "## 批注导出\n\n",
+		settingExportName: "导出批注",
+		settingExportDesc: "将当前文件、某个文件夹或整个库的批注导出为 Markdown 笔记、CSV、JSON 或 HTML 报告。",
+		settingExportButton: "导出...",
+		settingExportFolderName: "导出文件夹",
+		settingExportFolderDesc: "导出文件保存到库中的哪个文件夹，留空则保存在库的根目录。",
+		settingPrintNotesName: "导出 PDF 与打印时的批注",
+		settingPrintNotesDesc: "纸面上无法悬浮查看，为每条批注编号并打印批注内容。仅影响导出 PDF 与打印，下次渲染笔记时生效。",
+		settingPrintNotesEndnotes: "编号尾注",
+		settingPrintNotesFootnotes: "在每个段落（块）下方列出编号批注",
+		settingPrintNotesHide: "隐藏",
+		printNotesTitle: "批注",
+		settingImportName: "转换其他批注写法",
+		settingImportDesc: "扫描所有文件，将下方启用的写法中的高亮和注释转换为批注。",
+		settingImportButton: "扫描并转换",
+
+		exportTitle: "批注导出",
+		exportModalTitle: "导出批注",
 		exportOriginal: "原文",
 		exportAnnotation: "批注",
+		exportReply: "回复",
+		exportLine: (line: number) => `第 ${line} 行`,
+		exportScopeName: "范围",
+		exportScopeFile: "当前文件",
+		exportScopeFolder: "文件夹",
+		exportScopeVault: "整个库",
+		exportFolderName: "文件夹",
+		exportFormatName: "格式",
+		exportFormatMarkdown: "Markdown 笔记",
+		exportFormatCsv: "CSV",
+		exportFormatJson: "JSON",
+		exportFormatHtml: "HTML 报告",
+		exportSave: "保存到库",
+		exportCopy: "复制到剪贴板",
 
 		menuAddTitle: "添加批注",
+
+		listViewTitle: "批注",
+		listNoFile: "打开一个 Markdown 文档以查看其中的批注。",
+		listEmpty: "当前文档没有批注。",
+		listCount: (count: number) => `共 ${count} 条批注`,
+		listEmptyNote: "（空批注）",
+		metaCreated: (date: string) => `创建于 ${date}`,
+		metaModified: (date: string) => `修改于 ${date}`,
+		metaReplies: (count: number) => `${count} 条回复`,
+		metaResolved: "已解决",
+		listIssue: (line: number) => `⚠️ 第 ${line} 行：`,
+		issueUnterminatedTag: "批注开始标签未结束",
+		issueUnclosedSpan: "批注缺少闭合的 </span>",
+		issueMissingNote: "批注缺少 data-note",
+
+		browserTitle: "批注浏览器",
+		browserSearchPlaceholder: "搜索批注原文与内容...",
+		browserAllColors: "全部颜色",
+		browserAllFolders: "整个库",
+		browserRescan: "重新扫描",
+		browserScanning: "正在扫描库文件...",
+		browserEmpty: "没有符合筛选条件的批注。",
+		browserFileCount: (count: number) => `分布于 ${count} 个文件`,
+
+		backlinksTitle: "批注反向链接",
+		backlinksNoFile: "打开一个文件以查看链接到它的批注。",
+		backlinksEmpty: "没有批注链接到此文件。",
 	}
 };
 
 type LocaleKey = keyof typeof STRINGS.en;
 
+const ISSUE_REASON_KEYS: Record<AnnotationParseErrorReason, LocaleKey> = {
+	"unterminated-tag": "issueUnterminatedTag",
+	"unclosed-span": "issueUnclosedSpan",
+	"missing-note": "issueMissingNote",
+};
+
 type TranslationParam = string | number;
 type TranslateFn = (key: LocaleKey, params?: TranslationParam) => string;
 
-const COLOR_OPTIONS: { value: AnnotationColor; labelKey: LocaleKey; hex: string }[] = [
-	{ value: "red", labelKey: "colorRed", hex: "#e5484d" },
-	{ value: "", labelKey: "colorDefault", hex: "#ff9900" }, // Orange is default (empty class)
-	{ value: "yellow", labelKey: "colorYellow", hex: "#e6c229" },
-	{ value: "green", labelKey: "colorGreen", hex: "#2f9d62" },
-	{ value: "cyan", labelKey: "colorCyan", hex: "#1abc9c" },
-	{ value: "blue", labelKey: "colorBlue", hex: "#3498db" },
-	{ value: "purple", labelKey: "colorPurple", hex: "#9b59b6" },
-	{ value: "gray", labelKey: "colorGray", hex: "#95a5a6" },
-];
+// 内置颜色在未自定义名称时使用本地化名称
+const BUILTIN_COLOR_LABEL_KEYS: Record<string, LocaleKey> = {
+	red: "colorRed",
+	"": "colorDefault",
+	yellow: "colorYellow",
+	green: "colorGreen",
+	cyan: "colorCyan",
+	blue: "colorBlue",
+	purple: "colorPurple",
+	gray: "colorGray",
+};
+
+type ColorChoice = { value: AnnotationColor; label: string; hex: string };
+
+type AnnotationThreadOptions = { replies: AnnotationReply[]; focusReply: boolean };
+
+/** 弹窗中的 Markdown 预览：桌面端并排显示（开关状态记入设置），移动端以标签页切换 */
+type AnnotationPreviewOptions = { enabled: boolean; onToggle: (enabled: boolean) => void };
+
+/** 悬浮框 / 卡片中的一层批注（嵌套时由内到外排列） */
+type AnnotationLayer = { el: HTMLElement; note: string; meta: string; rawReplies: string; resolved: boolean };
+
+/** 一层批注的内容区域，以及其中待渲染的文本块（批注正文与回复） */
+type LayerSection = { el: HTMLElement; blocks: { text: string; el: HTMLElement }[] };
+
+type LayerSectionOptions = {
+	/** 最内层显示固定按钮 */
+	onPin?: () => void;
+	/** 原位编辑时使用的渲染组件；为空则不显示编辑按钮 */
+	editComponent?: () => Component | null;
+	/** 各层批注的源位置；卡片传入自己持有的位置，编辑后与定位按钮保持一致 */
+	locations?: (RenderedAnnotationLocation | null)[];
+};
+
+type ImportPreview = { path: string; conversions: ImportConversion[] };
+
+const IMPORT_SOURCE_LABEL_KEYS: Record<ImportSource, LocaleKey> = {
+	"highlight-footnote": 'importSourceHighlightFootnote',
+	"comment": 'importSourceComment',
+	"mark": 'importSourceMark',
+	"abbr": 'importSourceAbbr',
+	"span-title": 'importSourceSpanTitle',
+};
 
 interface SimpleHTMLAnnotationSettings {
 	defaultColor: AnnotationColor;
@@ -276,11 +657,32 @@ interface SimpleHTMLAnnotationSettings {
 	darkOpacity: number;
 	tooltipWidth: number;
 	tooltipFontScale: number;
+	tooltipShowDelay: number;
+	tooltipHideDelay: number;
 	submitShortcut: ModalShortcut;
 	newlineShortcut: ModalShortcut;
 	autoNormalizeAfterExit: boolean;
 	enableMarkdown: boolean;
 	language: Locale;
+	colors: PaletteColor[];
+	recordMetadata: boolean;
+	authorName: string;
+	dimResolved: boolean;
+	hideResolved: boolean;
+	exportFolder: string;
+	exportScope: ExportScope;
+	exportFormat: ExportFormat;
+	importSources: ImportSource[];
+	printNotes: PrintNoteMode;
+	modalPreview: boolean;
+	updateLinksOnRename: boolean;
+	extractFolder: string;
+	extractFileName: string;
+	extractTemplate: string;
+	extractLinkMode: ExtractLinkMode;
+	/** null = 所有颜色 */
+	navigationColor: AnnotationColor | null;
+	navigationShowTooltip: boolean;
 }
 
 const DEFAULT_SETTINGS: SimpleHTMLAnnotationSettings = {
@@ -294,17 +696,79 @@ const DEFAULT_SETTINGS: SimpleHTMLAnnotationSettings = {
 	darkOpacity: 25,
 	tooltipWidth: 800,
 	tooltipFontScale: 100,
+	tooltipShowDelay: 100,
+	tooltipHideDelay: 300,
 	submitShortcut: '',
 	newlineShortcut: 'enter',
 	autoNormalizeAfterExit: true,
 	enableMarkdown: true,
-	language: 'en'
+	language: 'en',
+	colors: BUILTIN_PALETTE,
+	recordMetadata: true,
+	authorName: '',
+	dimResolved: true,
+	hideResolved: false,
+	exportFolder: '',
+	exportScope: 'file',
+	exportFormat: 'markdown',
+	importSources: IMPORT_SOURCES,
+	printNotes: 'endnotes',
+	modalPreview: false,
+	updateLinksOnRename: true,
+	extractFolder: '',
+	extractFileName: DEFAULT_EXTRACT_FILE_NAME,
+	extractTemplate: DEFAULT_EXTRACT_TEMPLATE,
+	extractLinkMode: 'append',
+	navigationColor: null,
+	navigationShowTooltip: false
+}
+
+let activePalette: PaletteColor[] = BUILTIN_PALETTE;
+
+function setActivePalette(palette: PaletteColor[]) {
+	activePalette = palette;
+}
+
+function getColorOption(color: AnnotationColor) {
+	return activePalette.find(opt => opt.value === color)
+		?? activePalette.find(opt => opt.value === DEFAULT_COLOR)!;
+}
+
+function formatMetadataTime(value: string) {
+	const time = moment(value);
+	return time.isValid() ? time.format("YYYY-MM-DD HH:mm") : value;
+}
+
+/**
+ * 元数据的单行摘要：作者 · 创建时间 · 修改时间（与创建时间相同时省略）
+ */
+function formatAnnotationMetadata(metadata: AnnotationMetadata, t: TranslateFn): string {
+	const parts: string[] = [];
+	if (metadata.author) parts.push(metadata.author);
+	if (metadata.created) parts.push(t('metaCreated', formatMetadataTime(metadata.created)));
+	if (metadata.modified && metadata.modified !== metadata.created) parts.push(t('metaModified', formatMetadataTime(metadata.modified)));
+	return parts.join(" · ");
+}
+
+function formatReplyMeta(reply: AnnotationReply, t: TranslateFn): string {
+	return formatAnnotationMetadata({ author: reply.author || undefined, created: reply.created || undefined }, t);
 }
 
-function buildAnnotationClass(color: AnnotationColor): string {
-	return color ? "ob-comment " + color : "ob-comment";
+function getColorIconId(color: AnnotationColor) {
+	return color ? `ob-annotation-icon-${color}` : `ob-annotation-icon-default`;
 }
 
+/** 悬浮框只有一个实例，以固定 id 供批注元素的 aria-describedby 引用 */
+const TOOLTIP_ELEMENT_ID = "ob-annotation-tooltip";
+
+/** 触发悬浮框时的鼠标位置（视口坐标）；键盘聚焦时为 null */
+type TooltipPointer = { clientX: number; clientY: number };
+
+/** 阅读模式中批注元素对应的源文件位置（开始标签的偏移），由后处理器记录 */
+type RenderedAnnotationLocation = AnnotationLocator & { sourcePath: string };
+
+const renderedAnnotationLocations = new WeakMap<HTMLElement, RenderedAnnotationLocation>();
+
 let forcedExpandedAnnotationRange: AnnotationOffsetRange | null = null;
 let autoNormalizeAfterExitEnabled = true;
 
@@ -333,6 +797,25 @@ export default class AnnotationPlugin extends Plugin {
   private tooltipRenderId = 0;
   private tooltipLastRenderKey: string | null = null;
   locale: Locale = 'en';
+  annotationIndex = new AnnotationIndex();
+  annotationIndexReady = false;
+  private requestSaveIndex = debounce(() => { void this.saveAnnotationIndex(); }, INDEX_SAVE_DEBOUNCE_MS, true);
+  /** 每个窗口（主窗口与弹出窗口）各自的调色板样式 */
+  private paletteStyleEls = new Map<Document, HTMLStyleElement>();
+  private paletteIconIds = new Set<string>();
+  private colorCommandIds = new Set<string>();
+  private printNotesCache: { text: string; notes: PrintNote[] } | null = null;
+  private popoutDocuments = new Set<Document>();
+  private tooltipTarget: HTMLElement | null = null;
+  private tooltipPointer: TooltipPointer | null = null;
+  private tooltipSourcePath = "";
+  private tooltipShowTimer: number | null = null;
+  private tooltipHideTimer: number | null = null;
+  private tooltipHoverParent: HoverParent = { hoverPopover: null };
+  private pinnedCards = new Set<AnnotationCard>();
+  private liveRegionEl: HTMLElement | null = null;
+  /** 阅读模式中上次跳转到的批注，以及跳转后的滚动位置（用户滚动后不再作为起点） */
+  private readingNavigation: RenderedAnnotationLocation & { scroll: number } | null = null;
   static lastUsedColor: AnnotationColor = DEFAULT_COLOR; // 记忆上次使用的颜色
 
 	t(key: LocaleKey, params?: TranslationParam): string {
@@ -343,8 +826,14 @@ export default class AnnotationPlugin extends Plugin {
 		return entry;
 	}
 
-	private getColorLabel(key: LocaleKey): string {
-		return this.t(key);
+	getColorLabel(color: PaletteColor): string {
+		if (color.label) return color.label;
+		const key = BUILTIN_COLOR_LABEL_KEYS[color.value];
+		return key ? this.t(key) : color.value;
+	}
+
+	getColorChoices(): ColorChoice[] {
+		return this.settings.colors.map(color => ({ value: color.value, label: this.getColorLabel(color), hex: color.hex }));
 	}
 
 	private getCommandRegistry() {
@@ -361,16 +850,33 @@ export default class AnnotationPlugin extends Plugin {
 
 	updateCommandNames() {
 		this.setCommandName('add-annotation-html', this.t('cmdAddDefault'));
-		COLOR_OPTIONS.forEach(opt => {
-			if (opt.value === "") return;
-			const colorLabel = this.getColorLabel(opt.labelKey);
-			this.setCommandName(`add-annotation-${opt.value}`, this.t('cmdAddWithColor', colorLabel));
+		this.settings.colors.forEach(color => {
+			if (color.value === "") return;
+			this.setCommandName(`add-annotation-${color.value}`, this.t('cmdAddWithColor', this.getColorLabel(color)));
 		});
 		this.setCommandName('toggle-annotation-visibility', this.t('cmdToggleVisibility'));
+		this.setCommandName('toggle-resolved-annotation-visibility', this.t('cmdToggleResolvedVisibility'));
+		this.setCommandName('resolve-current-annotation', this.t('cmdResolveCurrent'));
+		this.setCommandName('reopen-current-annotation', this.t('cmdReopenCurrent'));
 		this.setCommandName('edit-current-annotation', this.t('cmdEditCurrent'));
+		this.setCommandName('reply-current-annotation', this.t('cmdReplyCurrent'));
 		this.setCommandName('delete-current-annotation', this.t('cmdDeleteCurrent'));
 		this.setCommandName('normalize-annotation-data-note-current', this.t('cmdNormalizeCurrent'));
 		this.setCommandName('normalize-annotation-data-note-vault', this.t('cmdNormalizeVault'));
+		this.setCommandName('open-annotation-list', this.t('cmdOpenList'));
+		this.setCommandName('open-annotation-browser', this.t('cmdOpenBrowser'));
+		this.setCommandName('open-annotation-backlinks', this.t('cmdOpenBacklinks'));
+		this.setCommandName('export-annotations', this.t('cmdExport'));
+		this.setCommandName('copy-current-file-annotations', this.t('cmdCopyCurrent'));
+		this.setCommandName('import-annotations-current', this.t('cmdImportCurrent'));
+		this.setCommandName('import-annotations-vault', this.t('cmdImportVault'));
+		this.setCommandName('convert-annotations-to-footnotes', this.t('cmdToFootnotes'));
+		this.setCommandName('convert-footnotes-to-annotations', this.t('cmdFromFootnotes'));
+		this.setCommandName('go-to-next-annotation', this.t('cmdNextAnnotation'));
+		this.setCommandName('go-to-previous-annotation', this.t('cmdPreviousAnnotation'));
+		this.setCommandName('read-annotation-at-cursor', this.t('cmdReadAnnotation'));
+		this.setCommandName('extract-current-annotation', this.t('cmdExtractCurrent'));
+		this.refreshAnnotationViews();
 	}
 
 	async onload() {
@@ -386,14 +892,8 @@ export default class AnnotationPlugin extends Plugin {
 		// 注册设置页
 		this.addSettingTab(new AnnotationSettingTab(this.app, this));
 
-		// 0. 注册彩色圆点图标 (用于右键菜单)
-		COLOR_OPTIONS.forEach(opt => {
-			const iconId = opt.value ? `ob-annotation-icon-${opt.value}` : `ob-annotation-icon-default`;
-			// 使用实心圆，显式设置 fill/stroke，避免被主题的 fill:none 覆盖导致看不见
-			// Adjust cy to 25 per user request and allow overflow to fix clipping
-			const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="66" height="66" viewBox="0 0 24 24" style="overflow: visible"><circle cx="12" cy="20" r="10" style="fill:${opt.hex};stroke:${opt.hex};stroke-width:1;" /></svg>`;
-			addIcon(iconId, svg);
-		});
+		// 0. 应用颜色方案：生成样式、彩色圆点图标 (用于右键菜单) 与各颜色命令
+		this.applyPalette();
 
 		// 1. 注册“添加批注”命令
 		this.addCommand({
@@ -404,19 +904,6 @@ export default class AnnotationPlugin extends Plugin {
 			}
 		});
 
-		// 注册特定颜色命令
-		COLOR_OPTIONS.forEach(opt => {
-			if (opt.value === "") return;
-			const colorLabel = this.getColorLabel(opt.labelKey);
-			this.addCommand({
-				id: `add-annotation-${opt.value}`,
-				name: this.t('cmdAddWithColor', colorLabel),
-				editorCallback: (editor: Editor) => {
-					this.handleAddCommand(editor, opt.value);
-				}
-			});
-		});
-		
 		// 注册一键开关命令
 		this.addCommand({
 			id: 'toggle-annotation-visibility',
@@ -434,6 +921,18 @@ export default class AnnotationPlugin extends Plugin {
 			}
 		});
 
+		// 只隐藏已解决的批注
+		this.addCommand({
+			id: 'toggle-resolved-annotation-visibility',
+			name: this.t('cmdToggleResolvedVisibility'),
+			callback: async () => {
+				this.settings.hideResolved = !this.settings.hideResolved;
+				this.updateStyles();
+				await this.saveSettings();
+				new Notice(this.t(this.settings.hideResolved ? 'noticeResolvedHidden' : 'noticeResolvedShown'));
+			}
+		});
+
 		// 注册编辑/删除快捷键命令
 		this.addCommand({
 			id: 'edit-current-annotation',
@@ -443,6 +942,30 @@ export default class AnnotationPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'reply-current-annotation',
+			name: this.t('cmdReplyCurrent'),
+			editorCallback: (editor: Editor) => {
+				this.handleEditCommand(editor, true);
+			}
+		});
+
+		this.addCommand({
+			id: 'resolve-current-annotation',
+			name: this.t('cmdResolveCurrent'),
+			editorCallback: (editor: Editor) => {
+				this.handleSetStatusCommand(editor, 'resolved');
+			}
+		});
+
+		this.addCommand({
+			id: 'reopen-current-annotation',
+			name: this.t('cmdReopenCurrent'),
+			editorCallback: (editor: Editor) => {
+				this.handleSetStatusCommand(editor, 'open');
+			}
+		});
+
 		this.addCommand({
 			id: 'delete-current-annotation',
 			name: this.t('cmdDeleteCurrent'),
@@ -469,120 +992,319 @@ export default class AnnotationPlugin extends Plugin {
 			}
 		});
 
+		// 注册批注侧边栏（当前文件的批注列表）
+		this.registerView(VIEW_TYPE_ANNOTATION_LIST, (leaf) => new AnnotationListView(leaf, this));
+		this.addCommand({
+			id: 'open-annotation-list',
+			name: this.t('cmdOpenList'),
+			callback: () => {
+				void this.activateAnnotationListView();
+			}
+		});
+
+		// 注册全库批注浏览器
+		this.registerView(VIEW_TYPE_ANNOTATION_BROWSER, (leaf) => new AnnotationBrowserView(leaf, this));
+		this.addCommand({
+			id: 'open-annotation-browser',
+			name: this.t('cmdOpenBrowser'),
+			callback: () => {
+				void this.activateAnnotationBrowserView();
+			}
+		});
+
+		// 注册批注反向链接：批注内容中的链接不会出现在 Obsidian 的反向链接面板中
+		this.registerView(VIEW_TYPE_ANNOTATION_BACKLINKS, (leaf) => new AnnotationBacklinksView(leaf, this));
+		this.addCommand({
+			id: 'open-annotation-backlinks',
+			name: this.t('cmdOpenBacklinks'),
+			callback: () => {
+				void this.activateAnnotationBacklinksView();
+			}
+		});
+
+		// 注册导出命令
+		this.addCommand({
+			id: 'export-annotations',
+			name: this.t('cmdExport'),
+			callback: () => {
+				this.openExportModal();
+			}
+		});
+
+		this.addCommand({
+			id: 'copy-current-file-annotations',
+			name: this.t('cmdCopyCurrent'),
+			callback: () => {
+				this.copyAnnotationExport('file', '', 'markdown').catch(err => this.reportExportError(err));
+			}
+		});
+
+		// 将其他写法（高亮 + 脚注、%%注释%%、<mark> 等）转换为批注
+		this.addCommand({
+			id: 'import-annotations-current',
+			name: this.t('cmdImportCurrent'),
+			editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => {
+				this.importCurrentFileAnnotations(editor, ctx.file?.path ?? "");
+			}
+		});
+
+		this.addCommand({
+			id: 'import-annotations-vault',
+			name: this.t('cmdImportVault'),
+			callback: async () => {
+				await this.importAllMarkdownFiles();
+			}
+		});
+
+		// 批注与标准 Markdown 脚注互转（有选区时只处理选区）
+		this.addCommand({
+			id: 'convert-annotations-to-footnotes',
+			name: this.t('cmdToFootnotes'),
+			editorCallback: (editor: Editor) => {
+				this.convertFootnotesInEditor(editor, 'to-footnotes');
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-footnotes-to-annotations',
+			name: this.t('cmdFromFootnotes'),
+			editorCallback: (editor: Editor) => {
+				this.convertFootnotesInEditor(editor, 'to-annotations');
+			}
+		});
+
+		// 在批注之间跳转（编辑与阅读模式均可用）
+		this.addCommand({
+			id: 'go-to-next-annotation',
+			name: this.t('cmdNextAnnotation'),
+			callback: () => {
+				this.navigateAnnotation('next');
+			}
+		});
+
+		this.addCommand({
+			id: 'go-to-previous-annotation',
+			name: this.t('cmdPreviousAnnotation'),
+			callback: () => {
+				this.navigateAnnotation('previous');
+			}
+		});
+
+		// 通过屏幕阅读器的实时区域朗读批注（编辑模式取光标处，阅读模式取聚焦的批注）
+		this.addCommand({
+			id: 'read-annotation-at-cursor',
+			name: this.t('cmdReadAnnotation'),
+			callback: () => {
+				this.readAnnotationAloud();
+			}
+		});
+
+		this.addCommand({
+			id: 'extract-current-annotation',
+			name: this.t('cmdExtractCurrent'),
+			editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => {
+				this.handleExtractCommand(editor, ctx.file);
+			}
+		});
+
 		// 2. 注册 CodeMirror 扩展 (Live Preview 渲染)
 		this.registerEditorExtension(livePreviewAnnotationPlugin);
 
+		// 阅读模式：对渲染出的批注元素做与实时预览一致的处理
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			this.processReadingAnnotations(el, ctx);
+		});
+
 		// 3. 初始化全局 Tooltip
 		this.createTooltipElement();
+		this.registerHoverLinkSource(this.manifest.id, { display: this.manifest.name, defaultMod: false });
+
+		// 4. 注册全局鼠标事件；弹出窗口打开时在其文档上同样注册
+		this.registerTooltipEvents(document);
+		this.registerEvent(this.app.workspace.on('window-open', (_workspaceWindow, win) => {
+			this.popoutDocuments.add(win.document);
+			this.registerTooltipEvents(win.document);
+			this.applyPaletteStyle(win.document);
+			this.updateStyles();
+		}));
+		this.registerEvent(this.app.workspace.on('window-close', (_workspaceWindow, win) => {
+			this.popoutDocuments.delete(win.document);
+			this.paletteStyleEls.get(win.document)?.remove();
+			this.paletteStyleEls.delete(win.document);
+		}));
+
+		// 5. [新增] 注册右键菜单事件
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu: Menu, editor: Editor, view: MarkdownView) => {
+				this.handleContextMenu(menu, editor, view.file);
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("file-open", () => {
+				setForcedExpandedAnnotationRange(null);
+			})
+		);
+
+		// 6. 批注索引：布局就绪后再对账，避免库加载时的大量 create 事件
+		this.app.workspace.onLayoutReady(() => {
+			void this.initAnnotationIndex();
+		});
+	}
 
-		// 4. 注册全局鼠标悬浮事件 (桌面端)
-		this.registerDomEvent(document, 'mouseover', (evt: MouseEvent) => {
+	/**
+	 * 在指定文档（主窗口或弹出窗口）上注册悬浮框相关的全局事件
+	 */
+	private registerTooltipEvents(doc: Document) {
+		// 鼠标悬浮 (桌面端)
+		this.registerDomEvent(doc, 'mouseover', (evt: MouseEvent) => {
 			// 如果隐藏模式开启，不显示 tooltip
 			if (document.body.classList.contains('ob-hide-annotations')) return;
 
                    const target = evt.target as HTMLElement;
                    if (this.shouldShowTooltipOnHover(evt, target)) {       
-                           const note = target.getAttribute('data-note');  
-							if (note) this.showTooltip(evt, note);
+							this.scheduleShowTooltip(evt, target);
                    }
            });
 
 		// 仅图标模式 + 悬浮触发时，需要跟踪鼠标移动以确保只有在图标区域才显示
-		this.registerDomEvent(document, 'mousemove', (evt: MouseEvent) => {
+		this.registerDomEvent(doc, 'mousemove', (evt: MouseEvent) => {
 			if (!this.isIconOnlyMode()) return;
 			if (this.settings.iconTooltipTrigger !== 'hover') return;
 			if (document.body.classList.contains('ob-hide-annotations')) return;
 
 			const target = evt.target as HTMLElement;
+			if (this.isInsideTooltip(target)) return;
 			if (target && target.hasClass && target.hasClass('ob-comment')) {
-                           const note = target.getAttribute('data-note');  
-                           if (note && this.isEventOnIcon(evt, target)) {  
-									this.showTooltip(evt, note);
+                           if (this.isEventOnIcon(evt, target)) {  
+									this.scheduleShowTooltip(evt, target);
                                    return;
                            }
                    }
-                   this.hideTooltip();
+                   this.scheduleHideTooltip();
            });
 
-		this.registerDomEvent(document, 'mouseout', (evt: MouseEvent) => {
+		// 离开批注后延迟隐藏，留出把鼠标移入悬浮框的时间
+		this.registerDomEvent(doc, 'mouseout', (evt: MouseEvent) => {
 			const target = evt.target as HTMLElement;
 			if (target && target.hasClass && target.hasClass('ob-comment')) {
-				this.hideTooltip();
+				this.scheduleHideTooltip();
 			}
 		});
 
 		// 移动端/点击支持：点击批注显示 Tooltip
-		this.registerDomEvent(document, 'click', (evt: MouseEvent) => {
+		this.registerDomEvent(doc, 'click', (evt: MouseEvent) => {
 			if (document.body.classList.contains('ob-hide-annotations')) return;
 			
 			const target = evt.target as HTMLElement;
 			if (target && target.hasClass && target.hasClass('ob-comment')) {
+                           // Ctrl/Cmd + Shift + 点击：固定为卡片
+                           if (Keymap.isModifier(evt, 'Mod') && evt.shiftKey) {
+                                   evt.preventDefault();
+                                   this.hideTooltip();
+                                   this.pinAnnotation(target, null);
+                                   return;
+                           }
                            if (this.shouldShowTooltipOnClick(evt, target)) {
-                                   const note = target.getAttribute('data-note');
-									if (note) this.showTooltip(evt, note);
+									this.showTooltip(evt, target);
                            }
                    } else {
                            // 点击空白处隐藏 (仅当不是 tooltip 本身)       
-                           if (this.tooltipEl && !this.tooltipEl.contains(target)) {
+                           if (this.tooltipEl && !this.tooltipEl.contains(target) && !this.isTooltipEditing()) {
 					this.hideTooltip();
 				}
 			}
 		});
 		// 修正 mousedown: 只有当点击的不是批注时才隐藏，避免跟 click 冲突
-		this.registerDomEvent(document, 'mousedown', (evt: MouseEvent) => {
+		this.registerDomEvent(doc, 'mousedown', (evt: MouseEvent) => {
 			const target = evt.target as HTMLElement;
 			if (target && target.hasClass && target.hasClass('ob-comment')) {
 				return; // 点击的是批注，交给 click 处理
 			}
+			if (this.isInsideTooltip(target) || this.isTooltipEditing()) return; // 悬浮框内的链接、按钮与文本选择
 			this.hideTooltip();
 		});
 
-		this.registerDomEvent(document, 'keydown', () => {
+		this.registerDomEvent(doc, 'keydown', (evt: KeyboardEvent) => {
+			// Escape 关闭悬浮框；焦点在悬浮框内时交还给批注元素
+			if (evt.key === 'Escape' && this.tooltipEl?.hasClass('is-visible') && !this.isTooltipEditing()) {
+				const target = this.tooltipTarget;
+				if (target && this.isInsideTooltip(evt.target)) target.focus();
+				this.hideTooltip();
+				evt.preventDefault();
+				return;
+			}
+			// 修饰键与 Ctrl/Cmd 组合键（如复制悬浮框中选中的文本）不关闭悬浮框
+			if (evt.ctrlKey || evt.metaKey || ['Shift', 'Control', 'Alt', 'Meta'].includes(evt.key)) return;
+			if (this.isInsideTooltip(evt.target) || this.isTooltipEditing()) return;
 			this.hideTooltip();
 		});
 
-		// 5. [新增] 注册右键菜单事件
-		this.registerEvent(
-			this.app.workspace.on("editor-menu", (menu: Menu, editor: Editor, view: MarkdownView) => {
-				this.handleContextMenu(menu, editor);
-			})
-		);
+		// 键盘聚焦（Tab）到批注时显示 Tooltip，失去焦点时隐藏
+		this.registerDomEvent(doc, 'focusin', (evt: FocusEvent) => {
+			if (document.body.classList.contains('ob-hide-annotations')) return;
+			const target = evt.target;
+			if (target instanceof Node && target.instanceOf(HTMLElement) && target.hasClass('ob-comment') && target.matches(':focus-visible')) {
+				this.showTooltip(null, target);
+			}
+		});
 
-		this.registerEvent(
-			this.app.workspace.on("file-open", () => {
-				setForcedExpandedAnnotationRange(null);
-			})
-		);
+		this.registerDomEvent(doc, 'focusout', (evt: FocusEvent) => {
+			const target = evt.target;
+			if (this.isInsideTooltip(evt.relatedTarget)) return; // 焦点移入悬浮框（如复制按钮）
+			if (target instanceof Node && target.instanceOf(HTMLElement) && target.hasClass('ob-comment')) {
+				this.hideTooltip();
+			}
+		});
+
+		// 阅读模式没有 editor-menu，在捕获阶段接管批注上的右键菜单
+		this.registerDomEvent(doc, 'contextmenu', (evt: MouseEvent) => {
+			this.handleReadingContextMenu(evt);
+		}, { capture: true });
 	}
 
   onunload() {
+          this.requestSaveIndex.run();
           setAutoNormalizeAfterExitEnabled(false);
           setForcedExpandedAnnotationRange(null);
           this.unloadTooltipRenderComponent();
+          this.paletteStyleEls.forEach(styleEl => styleEl.remove());
+          this.paletteStyleEls.clear();
+          this.paletteIconIds.forEach(iconId => removeIcon(iconId));
           if (this.tooltipEl) {
                   this.tooltipEl.remove();
           }
-          document.body.classList.remove('ob-show-underline', 'ob-show-background', 'ob-show-icon', 'ob-hide-annotations', 'ob-icon-only-mode');
-		const rootStyle = document.documentElement.style;
-		rootStyle.removeProperty('--ob-annotation-bg-opacity-light');
-		rootStyle.removeProperty('--ob-annotation-bg-opacity-dark');
-		rootStyle.removeProperty('--ob-annotation-tooltip-width');
-		rootStyle.removeProperty('--ob-annotation-tooltip-font-scale');
+		Array.from(this.pinnedCards).forEach(card => card.close());
+		this.liveRegionEl?.remove();
+		[document, ...Array.from(this.popoutDocuments)].forEach(doc => {
+			doc.body.classList.remove('ob-show-underline', 'ob-show-background', 'ob-show-icon', 'ob-hide-annotations', 'ob-dim-resolved', 'ob-hide-resolved', 'ob-icon-only-mode');
+			const rootStyle = doc.documentElement.style;
+			rootStyle.removeProperty('--ob-annotation-bg-opacity-light');
+			rootStyle.removeProperty('--ob-annotation-bg-opacity-dark');
+			rootStyle.removeProperty('--ob-annotation-tooltip-width');
+			rootStyle.removeProperty('--ob-annotation-tooltip-font-scale');
+		});
 	}
 
 	async loadSettings() {
-		const data = await this.loadData() as Partial<SimpleHTMLAnnotationSettings> & { autoNormalizeNewlines?: boolean } | null;
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, data ?? {});
-
-		if (data && typeof data.autoNormalizeNewlines === "boolean") {
+		const stored = await this.loadData() as Partial<SimpleHTMLAnnotationSettings> & { autoNormalizeNewlines?: boolean; annotationIndex?: unknown } | null;
+		const { annotationIndex, ...data } = stored ?? {};
+		// 旧版本把索引存在 data.json 中：先沿用，之后写入单独的索引文件
+		this.annotationIndex = AnnotationIndex.fromSerialized(annotationIndex);
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		this.settings.colors = normalizePalette(data.colors);
+		const importSources = Array.isArray(data.importSources) ? data.importSources : IMPORT_SOURCES;
+		this.settings.importSources = IMPORT_SOURCES.filter(source => importSources.includes(source));
+
+		if (typeof data.autoNormalizeNewlines === "boolean") {
 			if (data.autoNormalizeAfterExit === undefined) {
 				this.settings.autoNormalizeAfterExit = data.autoNormalizeNewlines;
 			}
 		}
 
 		const changed = this.enforceShortcutSettings();
-		if (changed) {
-			await this.saveData(this.settings);
+		if (changed || annotationIndex !== undefined) {
+			await this.saveSettings();
 		}
 	}
 
@@ -591,6 +1313,35 @@ export default class AnnotationPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * 批注索引单独保存在插件目录中，避免每次修改设置都重写整个索引
+	 */
+	private getAnnotationIndexPath(): string {
+		const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return normalizePath(`${dir}/${INDEX_FILE_NAME}`);
+	}
+
+	private async loadAnnotationIndex() {
+		const { adapter } = this.app.vault;
+		const path = this.getAnnotationIndexPath();
+		try {
+			if (await adapter.exists(path)) {
+				this.annotationIndex = AnnotationIndex.fromSerialized(JSON.parse(await adapter.read(path)));
+			}
+		} catch (err) {
+			// 索引损坏时重新扫描即可
+			console.error('[hover-annotations] Failed to load annotation index', err);
+		}
+	}
+
+	private async saveAnnotationIndex() {
+		try {
+			await this.app.vault.adapter.write(this.getAnnotationIndexPath(), JSON.stringify(this.annotationIndex.serialize()));
+		} catch (err) {
+			console.error('[hover-annotations] Failed to save annotation index', err);
+		}
+	}
+
 	enforceShortcutSettings(showNotice = false): boolean {
 		const normalized = normalizeShortcutSettings({
 			submitShortcut: this.settings.submitShortcut,
@@ -643,50 +1394,213 @@ export default class AnnotationPlugin extends Plugin {
 		return true;
 	}
 
+	/**
+	 * 按颜色方案重新生成样式、右键菜单图标和各颜色命令；设置页修改颜色后调用
+	 */
+	/**
+	 * 在指定文档中写入调色板样式，不存在时创建
+	 */
+	private applyPaletteStyle(doc: Document) {
+		let styleEl = this.paletteStyleEls.get(doc);
+		if (!styleEl) {
+			styleEl = doc.head.createEl("style", { attr: { id: "ob-annotation-palette" } });
+			this.paletteStyleEls.set(doc, styleEl);
+		}
+		styleEl.textContent = buildPaletteCss(this.settings.colors);
+	}
+
+	applyPalette() {
+		const palette = this.settings.colors;
+		setActivePalette(palette);
+
+		[document, ...Array.from(this.popoutDocuments)].forEach(doc => this.applyPaletteStyle(doc));
+
+		const iconIds = new Set<string>();
+		palette.forEach(color => {
+			const iconId = getColorIconId(color.value);
+			// 使用实心圆，显式设置 fill/stroke，避免被主题的 fill:none 覆盖导致看不见
+			// Adjust cy to 25 per user request and allow overflow to fix clipping
+			const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="66" height="66" viewBox="0 0 24 24" style="overflow: visible"><circle cx="12" cy="20" r="10" style="fill:${color.hex};stroke:${color.hex};stroke-width:1;" /></svg>`;
+			addIcon(iconId, svg);
+			iconIds.add(iconId);
+		});
+		this.paletteIconIds.forEach(iconId => {
+			if (!iconIds.has(iconId)) removeIcon(iconId);
+		});
+		this.paletteIconIds = iconIds;
+
+		// 默认颜色使用 add-annotation-html 命令，其余颜色各自注册命令
+		const commandIds = new Set<string>();
+		palette.forEach(color => {
+			if (color.value === "") return;
+			const id = `add-annotation-${color.value}`;
+			commandIds.add(id);
+			if (this.colorCommandIds.has(id)) {
+				this.setCommandName(id, this.t('cmdAddWithColor', this.getColorLabel(color)));
+				return;
+			}
+			this.addCommand({
+				id,
+				name: this.t('cmdAddWithColor', this.getColorLabel(color)),
+				editorCallback: (editor: Editor) => {
+					this.handleAddCommand(editor, color.value);
+				}
+			});
+		});
+		this.colorCommandIds.forEach(id => {
+			if (!commandIds.has(id)) this.removeCommand(id);
+		});
+		this.colorCommandIds = commandIds;
+
+		if (!palette.some(color => color.value === this.settings.defaultColor)) {
+			this.settings.defaultColor = DEFAULT_COLOR;
+		}
+		if (!palette.some(color => color.value === AnnotationPlugin.lastUsedColor)) {
+			AnnotationPlugin.lastUsedColor = this.settings.defaultColor;
+		}
+	}
+
 	/**
 	 * 根据当前设置更新全局样式（body class + CSS 变量），即时生效。
 	 */
 	updateStyles() {
 		// 切换展示模式样式
 		const iconOnlyMode = this.isIconOnlyMode();
-		document.body.classList.toggle('ob-show-underline', this.settings.enableUnderline);
-		document.body.classList.toggle('ob-show-background', this.settings.enableBackground);
-		document.body.classList.toggle('ob-show-icon', this.settings.enableIcon);
-		document.body.classList.toggle('ob-hide-annotations', this.settings.hideAnnotations);
-		document.body.classList.toggle('ob-icon-only-mode', iconOnlyMode);
+		// 主窗口与所有弹出窗口保持一致
+		const docs = [document, ...Array.from(this.popoutDocuments)];
+		docs.forEach(doc => {
+			doc.body.classList.toggle('ob-show-underline', this.settings.enableUnderline);
+			doc.body.classList.toggle('ob-show-background', this.settings.enableBackground);
+			doc.body.classList.toggle('ob-show-icon', this.settings.enableIcon);
+			doc.body.classList.toggle('ob-hide-annotations', this.settings.hideAnnotations);
+			doc.body.classList.toggle('ob-dim-resolved', this.settings.dimResolved);
+			doc.body.classList.toggle('ob-hide-resolved', this.settings.hideResolved);
+			doc.body.classList.toggle('ob-icon-only-mode', iconOnlyMode);
+		});
 
 		// 同步 CSS 变量
 		const clampOpacity = (value: number) => Math.min(Math.max(value, 0), 100) / 100;
-		const rootStyle = document.documentElement.style;
 		const lightAlpha = clampOpacity(this.settings.lightOpacity ?? DEFAULT_SETTINGS.lightOpacity);
 		const darkAlpha = clampOpacity(this.settings.darkOpacity ?? DEFAULT_SETTINGS.darkOpacity);
 		const tooltipWidth = this.settings.tooltipWidth > 0 ? this.settings.tooltipWidth : DEFAULT_SETTINGS.tooltipWidth;
 		const fontScale = this.settings.tooltipFontScale > 0 ? this.settings.tooltipFontScale : DEFAULT_SETTINGS.tooltipFontScale;
 
-		rootStyle.setProperty('--ob-annotation-bg-opacity-light', lightAlpha.toString());
-		rootStyle.setProperty('--ob-annotation-bg-opacity-dark', darkAlpha.toString());
-		rootStyle.setProperty('--ob-annotation-tooltip-width', `${tooltipWidth}px`);
-		rootStyle.setProperty('--ob-annotation-tooltip-font-scale', `${fontScale / 100}`);
+		docs.forEach(doc => {
+			const rootStyle = doc.documentElement.style;
+			rootStyle.setProperty('--ob-annotation-bg-opacity-light', lightAlpha.toString());
+			rootStyle.setProperty('--ob-annotation-bg-opacity-dark', darkAlpha.toString());
+			rootStyle.setProperty('--ob-annotation-tooltip-width', `${tooltipWidth}px`);
+			rootStyle.setProperty('--ob-annotation-tooltip-font-scale', `${fontScale / 100}`);
+		});
 	}
 
 	// --- 核心逻辑区 ---
 
 	/**
-	 * 命令触发：编辑当前批注
+	 * 命令触发：编辑当前批注；focusReply 为 true 时直接聚焦回复输入框
 	 */
-	handleEditCommand(editor: Editor) {
+	handleEditCommand(editor: Editor, focusReply = false) {
 		const existing = this.findAnnotationAtCursor(editor);
 		if (existing) {
-			new AnnotationModal(this.app, existing.note, existing.color || DEFAULT_COLOR, (newNote, newColor) => {
-				const safeNote = escapeDataNote(newNote);
-				const replacement = `<span class="${buildAnnotationClass(newColor)}" data-note="${safeNote}">${existing.text}</span>`;
+			this.openEditAnnotationModal(existing.annotation, focusReply, replacement => {
 				editor.replaceRange(replacement, existing.from, existing.to);
-			}, this.locale, this.t.bind(this), this.settings.submitShortcut, this.settings.newlineShortcut).open();
+			});
 		} else {
 			new Notice(this.t('noticeNoAnnotation'));
 		}
 	}
 
+	/**
+	 * 打开批注编辑弹窗，提交后将新的批注 HTML 交给 apply 写回（编辑器或文件）
+	 */
+	private openEditAnnotationModal(annotation: ParsedAnnotation, focusReply: boolean, apply: (replacement: string) => void) {
+		const replies = getAnnotationReplies(annotation.attributes);
+		new AnnotationModal(this.app, annotation.note, annotation.color || DEFAULT_COLOR, (newNote, newColor, reply) => {
+			apply(this.buildEditedAnnotationHtml(annotation, newNote, newColor, reply));
+		}, this.locale, this.t.bind(this), this.settings.submitShortcut, this.settings.newlineShortcut, this.getColorChoices(), { replies, focusReply }, this.getModalPreviewOptions()).open();
+	}
+
+	/**
+	 * 关闭 Markdown 渲染时悬浮框只显示纯文本，弹窗也不提供预览
+	 */
+	private getModalPreviewOptions(): AnnotationPreviewOptions | null {
+		if (!this.settings.enableMarkdown) return null;
+		return {
+			enabled: this.settings.modalPreview,
+			onToggle: (enabled) => {
+				this.settings.modalPreview = enabled;
+				void this.saveSettings();
+			}
+		};
+	}
+
+	/**
+	 * 编辑后的批注 HTML：更新修改时间，有回复时追加到讨论串
+	 */
+	private buildEditedAnnotationHtml(annotation: ParsedAnnotation, note: string, color: AnnotationColor, reply: string): string {
+		let attributes = this.touchMetadataAttributes(annotation);
+		if (reply) {
+			attributes = withAnnotationReplies(attributes, [
+				...getAnnotationReplies(annotation.attributes),
+				{ author: this.settings.authorName.trim(), created: formatTimestamp(), text: reply }
+			]);
+		}
+		return buildAnnotationHtml({
+			...annotation,
+			color,
+			note,
+			attributes
+		});
+	}
+
+	private buildStatusAnnotationHtml(annotation: ParsedAnnotation, status: AnnotationStatus): string {
+		return buildAnnotationHtml({
+			...annotation,
+			attributes: withAnnotationStatus(this.touchMetadataAttributes(annotation), status)
+		});
+	}
+
+	private buildRecoloredAnnotationHtml(annotation: ParsedAnnotation, color: AnnotationColor): string {
+		return buildAnnotationHtml({
+			...annotation,
+			color,
+			attributes: this.touchMetadataAttributes(annotation)
+		});
+	}
+
+	/**
+	 * 在菜单中添加“修改颜色”子菜单
+	 */
+	private addColorSubmenu(menu: Menu, onPick: (color: AnnotationColor) => void) {
+		menu.addItem((item) => {
+			item.setTitle(this.t('ctxChangeColor')).setIcon("palette");
+			const subMenu = (item as SubmenuCapableMenuItem).setSubmenu?.();
+			if (!subMenu) return;
+
+			this.getColorChoices().forEach(opt => {
+				subMenu.addItem((subItem: MenuItem) => {
+					subItem.setTitle(opt.label)
+						.setIcon(getColorIconId(opt.value)) // 使用注册的彩色图标
+						.onClick(() => onPick(opt.value));
+				});
+			});
+		});
+	}
+
+	/**
+	 * 命令触发：将当前批注标记为已解决或重新打开
+	 */
+	handleSetStatusCommand(editor: Editor, status: AnnotationStatus) {
+		const existing = this.findAnnotationAtCursor(editor);
+		if (!existing) {
+			new Notice(this.t('noticeNoAnnotation'));
+			return;
+		}
+		if (getAnnotationStatus(existing.annotation.attributes) === status) return;
+
+		editor.replaceRange(this.buildStatusAnnotationHtml(existing.annotation, status), existing.from, existing.to);
+	}
+
 	/**
 	 * 命令触发：删除当前批注
 	 */
@@ -699,10 +1613,22 @@ export default class AnnotationPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * 命令触发：将当前批注提取为独立笔记
+	 */
+	handleExtractCommand(editor: Editor, file: TFile | null) {
+		const existing = this.findAnnotationAtCursor(editor);
+		if (!existing || !file) {
+			new Notice(this.t('noticeNoAnnotation'));
+			return;
+		}
+		void this.extractAnnotationToNote({ sourcePath: file.path, ...createAnnotationLocator(existing.annotation) }, existing.annotation);
+	}
+
 	/**
 	 * 处理右键菜单逻辑
 	 */
-	handleContextMenu(menu: Menu, editor: Editor) {
+	handleContextMenu(menu: Menu, editor: Editor, file: TFile | null) {
 		// 检查光标下是否存在已有的批注
 		const existingAnnotation = this.findAnnotationAtCursor(editor);
 
@@ -718,7 +1644,7 @@ export default class AnnotationPlugin extends Plugin {
 					.setIcon("highlighter")
 					.onClick(() => {
 						const selection = editor.getSelection();
-						if(selection) this.performAddAnnotation(editor, selection);
+						if(selection) this.performAddAnnotation(editor);
 						else new Notice(this.t('noticeNeedSelectionAdd'));
 					});
 			});
@@ -733,26 +1659,31 @@ export default class AnnotationPlugin extends Plugin {
 					});
 			});
 
-				// 3. 修改颜色 (子菜单)
-				menu.addItem((item) => {
-					item.setTitle(this.t('ctxChangeColor')).setIcon("palette");
-					const subMenu = (item as SubmenuCapableMenuItem).setSubmenu?.();
-					if (!subMenu) return;
-
-					COLOR_OPTIONS.forEach(opt => {
-							const iconId = opt.value ? `ob-annotation-icon-${opt.value}` : `ob-annotation-icon-default`;
-							const colorLabel = this.getColorLabel(opt.labelKey);
-                                           subMenu.addItem((subItem: MenuItem) => {
-                                                   subItem.setTitle(colorLabel)
-                                                              .setIcon(iconId) // 使用注册的彩色图标
-                                                              .onClick(() => {
-									   // 直接修改颜色
-									   const replacement = `<span class="${buildAnnotationClass(opt.value)}" data-note="${escapeDataNote(existingAnnotation.note)}">${existingAnnotation.text}</span>`;
-									   editor.replaceRange(replacement, existingAnnotation.from, existingAnnotation.to);
-								   });
-						});
-						});
+			// 回复批注
+			menu.addItem((item) => {
+				item
+					.setTitle(this.t('ctxReply'))
+					.setIcon("reply")
+					.onClick(() => {
+						this.handleEditCommand(editor, true);
 					});
+			});
+
+			// 标记为已解决 / 重新打开
+			const isResolved = getAnnotationStatus(existingAnnotation.annotation.attributes) === 'resolved';
+			menu.addItem((item) => {
+				item
+					.setTitle(this.t(isResolved ? 'ctxReopen' : 'ctxResolve'))
+					.setIcon(isResolved ? "rotate-ccw" : "check-circle")
+					.onClick(() => {
+						this.handleSetStatusCommand(editor, isResolved ? 'open' : 'resolved');
+					});
+			});
+
+				// 3. 修改颜色 (子菜单)
+				this.addColorSubmenu(menu, color => {
+					editor.replaceRange(this.buildRecoloredAnnotationHtml(existingAnnotation.annotation, color), existingAnnotation.from, existingAnnotation.to);
+				});
 
 					// 4. 删除批注
 					menu.addItem((item) => {
@@ -764,6 +1695,15 @@ export default class AnnotationPlugin extends Plugin {
 					});
 			});
 
+			menu.addItem((item) => {
+				item
+					.setTitle(this.t('ctxExtract'))
+					.setIcon("file-output")
+					.onClick(() => {
+						this.handleExtractCommand(editor, file);
+					});
+			});
+
 		} else {
 			// === 场景 B：光标不在批注上 -> 检查是否有选区 -> 显示 添加 ===
 			const selection = editor.getSelection();
@@ -775,7 +1715,7 @@ export default class AnnotationPlugin extends Plugin {
 						.setTitle(this.t('ctxAdd'))
 						.setIcon("highlighter")
 						.onClick(() => {
-							this.performAddAnnotation(editor, selection);
+							this.performAddAnnotation(editor);
 						});
 				});
 			}
@@ -791,29 +1731,54 @@ export default class AnnotationPlugin extends Plugin {
 			new Notice(this.t('noticeNeedSelection'));
 			return;
 		}
-		// 检查选区内是否已经包含了 HTML 标签，防止嵌套（可选）
-		if (selection.includes('<span class="ob-comment"')) {
-			new Notice(this.t('noticeNoNested'));
-			return;
-		}
-		this.performAddAnnotation(editor, selection, forcedColor);
+		this.performAddAnnotation(editor, forcedColor);
 	}
 
 	/**
 	 * 执行添加批注动作
 	 */
-	performAddAnnotation(editor: Editor, selectionText: string, forcedColor: AnnotationColor | null = null) {
+	performAddAnnotation(editor: Editor, forcedColor: AnnotationColor | null = null) {
 		// 优先使用强制颜色(如来自快捷命令)，否则使用记忆的颜色
 		const initialColor = forcedColor !== null ? forcedColor : AnnotationPlugin.lastUsedColor;
+		const selectionFrom = editor.posToOffset(editor.getCursor('from'));
+		const selectionTo = editor.posToOffset(editor.getCursor('to'));
 
 		new AnnotationModal(this.app, "", initialColor, (noteContent, colorChoice) => {
 			// 更新记忆的颜色 (通常即使是强制颜色操作，也更新记忆比较符合直觉，方便连续操作)
 			AnnotationPlugin.lastUsedColor = colorChoice;
 
-			const safeNote = escapeDataNote(noteContent);
-			const replacement = `<span class="${buildAnnotationClass(colorChoice)}" data-note="${safeNote}">${selectionText}</span>`;
-			editor.replaceSelection(replacement);
-		}, this.locale, this.t.bind(this), this.settings.submitShortcut, this.settings.newlineShortcut).open();
+			// 与已有批注部分重叠时拆分为多段，保证 HTML 正确嵌套；各段共用同一条批注
+			const docText = editor.getValue();
+			const { annotations } = parseAnnotations(docText);
+			const openTag = buildAnnotationOpenTag({ color: colorChoice, note: noteContent, attributes: this.createMetadataAttributes() });
+			const changes: EditorChange[] = [];
+			planAnnotationSegments(annotations, selectionFrom, selectionTo).forEach(segment => {
+				changes.push(
+					{ from: editor.offsetToPos(segment.from), text: openTag },
+					{ from: editor.offsetToPos(segment.to), text: "</span>" }
+				);
+			});
+			if (changes.length > 0) editor.transaction({ changes });
+		}, this.locale, this.t.bind(this), this.settings.submitShortcut, this.settings.newlineShortcut, this.getColorChoices(), null, this.getModalPreviewOptions()).open();
+	}
+
+	/**
+	 * 新建批注时写入的元数据属性；拆分为多段的批注共用同一个 ID
+	 */
+	private createMetadataAttributes(): AnnotationAttribute[] {
+		const author = this.settings.authorName.trim() || null;
+		if (!this.settings.recordMetadata) return withAnnotationMetadata([], { author });
+		const now = formatTimestamp();
+		return withAnnotationMetadata([], { id: generateAnnotationId(), author, created: now, modified: now });
+	}
+
+	/**
+	 * 修改批注时更新修改时间，旧批注缺少 ID 时顺便补上；作者保持不变
+	 */
+	private touchMetadataAttributes(annotation: ParsedAnnotation): AnnotationAttribute[] {
+		if (!this.settings.recordMetadata) return annotation.attributes;
+		const { id } = getAnnotationMetadata(annotation.attributes);
+		return withAnnotationMetadata(annotation.attributes, { id: id ?? generateAnnotationId(), modified: formatTimestamp() });
 	}
 
 	/**
@@ -824,37 +1789,940 @@ export default class AnnotationPlugin extends Plugin {
 		const cursorOffset = editor.posToOffset(cursor);
 		const docText = editor.getValue();
 
-		// 重置正则索引
-		COMMENT_REGEX.lastIndex = 0;
-		let match;
+		// 嵌套时取最内层（离光标最近）的批注
+		const stack = findAnnotationsAtOffset(parseAnnotations(docText).annotations, cursorOffset);
+		const annotation = stack[stack.length - 1];
+		if (!annotation) return null;
+
+		return {
+			from: editor.offsetToPos(annotation.from),
+			to: editor.offsetToPos(annotation.to),
+			text: annotation.text, // 原文
+			note: annotation.note, // 笔记内容（解码后）
+			color: annotation.color,
+			annotation
+		};
+	}
 
-		// 遍历全文所有的批注
-		while ((match = COMMENT_REGEX.exec(docText)) !== null) {
-			const fullMatch = match[0];    // 完整的 <span...>text</span>
-			const colorClass = match[1] || "";
-			const noteContent = match[2];  // data-note="..."
-			const innerText = match[3];    // <span>包裹的文本</span>
-			
-			const startOffset = match.index;
-			const endOffset = startOffset + fullMatch.length;
-
-			// 判断光标位置是否在这个范围内
-			if (cursorOffset >= startOffset && cursorOffset <= endOffset) {
-				return {
-					from: editor.offsetToPos(startOffset),
-					to: editor.offsetToPos(endOffset),
-					text: innerText, // 原文
-					note: decodeDataNote(noteContent), // 笔记内容（解码后）
-					color: colorClass
-				};
+	// --- 阅读模式 ---
+
+	/**
+	 * 阅读模式后处理：按所在段落的源码对应渲染出的批注元素，像实时预览的装饰一样
+	 * 设置 class 与解码后的 data-* 属性，并记录其在源文件中的位置供右键菜单使用
+	 */
+	private processReadingAnnotations(el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+		const spans = Array.from(el.querySelectorAll<HTMLElement>('span.ob-comment[data-note]'));
+
+		// 支持键盘 Tab 聚焦；role="mark" 让屏幕阅读器将其识别为标记文本
+		spans.forEach(span => {
+			span.setAttribute('tabindex', '0');
+			span.setAttribute('role', 'mark');
+		});
+
+		const info = ctx.getSectionInfo(el);
+		if (!info) return;
+		const sectionFrom = getLineOffset(info.text, info.lineStart);
+		const sectionTo = getLineOffset(info.text, info.lineEnd + 1);
+		const annotations = spans.length > 0 ? findRenderedAnnotations(info.text.slice(sectionFrom, sectionTo)) : [];
+
+		// 数量对不上（如跨段落的批注）时无法可靠对应，保留浏览器的解析结果
+		if (annotations.length === spans.length) {
+			spans.forEach((span, i) => {
+				const annotation = annotations[i];
+				const attributes = getDecorationAttributes(annotation);
+				span.className = buildAnnotationClass(annotation.color, annotation.classes);
+				Object.keys(attributes).forEach(name => span.setAttribute(name, attributes[name]));
+				renderedAnnotationLocations.set(span, { sourcePath: ctx.sourcePath, ...createAnnotationLocator(annotation, sectionFrom + annotation.from) });
+			});
+		}
+
+		this.renderPrintNotes(el, ctx, spans, info.text, sectionFrom, sectionTo);
+	}
+
+	private getPrintNotes(text: string): PrintNote[] {
+		// 同一文件的各个段落共用一次解析结果
+		if (this.printNotesCache?.text !== text) {
+			this.printNotesCache = { text, notes: collectPrintNotes(text) };
+		}
+		return this.printNotesCache.notes;
+	}
+
+	/**
+	 * 打印 / 导出 PDF：在批注后加上编号上标，并在文末（尾注）或所在块之后（脚注）列出批注内容。
+	 * 这些元素在屏幕上隐藏，仅在打印样式中显示
+	 */
+	private renderPrintNotes(el: HTMLElement, ctx: MarkdownPostProcessorContext, spans: HTMLElement[], text: string, sectionFrom: number, sectionTo: number) {
+		const mode = this.settings.printNotes;
+		if (mode === 'hide') return;
+		const notes = this.getPrintNotes(text);
+		if (notes.length === 0) return;
+
+		const numbers = new Map(notes.map(note => [note.from, note.number] as [number, number]));
+		spans.forEach(span => {
+			const location = renderedAnnotationLocations.get(span);
+			const number = location ? numbers.get(location.from) : undefined;
+			if (number === undefined) return;
+			const refEl = createEl('sup', { cls: 'ob-annotation-print-ref', text: String(number) });
+			span.insertAdjacentElement('afterend', refEl);
+		});
+
+		// 尾注挂在文件最后一个块之后；脚注挂在批注所在的块之后
+		const blockNotes = mode === 'footnotes'
+			? notes.filter(note => note.from >= sectionFrom && note.from < sectionTo)
+			: text.slice(sectionTo).trim() === "" ? notes : [];
+		if (blockNotes.length === 0) return;
+
+		const notesEl = el.createDiv({ cls: ['ob-annotation-print-notes', `is-${mode}`] });
+		if (mode === 'endnotes') notesEl.createEl('h2', { text: this.t('printNotesTitle') });
+		const listEl = notesEl.createEl('ol');
+		const child = new MarkdownRenderChild(notesEl);
+		ctx.addChild(child);
+
+		blockNotes.forEach(note => {
+			const itemEl = listEl.createEl('li', { attr: { value: String(note.number) } });
+			if (this.settings.enableMarkdown) {
+				void MarkdownRenderer.render(this.app, note.note, itemEl, ctx.sourcePath, child);
+			} else {
+				itemEl.addClass('is-plain');
+				itemEl.setText(note.note);
+			}
+		});
+	}
+
+	private async findAnnotationInFile(location: RenderedAnnotationLocation): Promise<ParsedAnnotation | null> {
+		const file = this.app.vault.getFileByPath(location.sourcePath);
+		if (!file) return null;
+		const text = await this.app.vault.cachedRead(file);
+		return findLocatedAnnotation(parseAnnotations(text).annotations, location);
+	}
+
+	/**
+	 * 按记录重新定位批注后写回：文件在编辑器中打开时通过编辑器修改（可撤销），否则直接修改文件。
+	 * 找到时同步 location.from，返回是否写入成功
+	 */
+	private async updateAnnotationInFile(location: RenderedAnnotationLocation, update: (annotation: ParsedAnnotation) => string): Promise<boolean> {
+		const file = this.app.vault.getFileByPath(location.sourcePath);
+		if (!file) return false;
+
+		const editorView = this.app.workspace.getLeavesOfType('markdown')
+			.map(leaf => leaf.view)
+			.find((view): view is MarkdownView => view instanceof MarkdownView && view.file === file && view.getMode() === 'source');
+		if (editorView) {
+			const editor = editorView.editor;
+			const annotation = findLocatedAnnotation(parseAnnotations(editor.getValue()).annotations, location);
+			if (!annotation) {
+				new Notice(this.t('noticeNoAnnotation'));
+				return false;
+			}
+			location.from = annotation.from;
+			editor.replaceRange(update(annotation), editor.offsetToPos(annotation.from), editor.offsetToPos(annotation.to));
+			return true;
+		}
+
+		let found = false;
+		await this.app.vault.process(file, text => {
+			const annotation = findLocatedAnnotation(parseAnnotations(text).annotations, location);
+			if (!annotation) return text;
+			found = true;
+			location.from = annotation.from;
+			return text.slice(0, annotation.from) + update(annotation) + text.slice(annotation.to);
+		});
+		if (!found) new Notice(this.t('noticeNoAnnotation'));
+		return found;
+	}
+
+	private async editAnnotationInFile(location: RenderedAnnotationLocation, focusReply: boolean) {
+		const annotation = await this.findAnnotationInFile(location);
+		if (!annotation) {
+			new Notice(this.t('noticeNoAnnotation'));
+			return;
+		}
+		this.openEditAnnotationModal(annotation, focusReply, replacement => {
+			void this.updateAnnotationInFile(location, () => replacement);
+		});
+	}
+
+	/**
+	 * 将批注提取为独立笔记：按模板在设置的文件夹中创建笔记（重名时追加序号），
+	 * 再把指向新笔记的链接写回批注，最后打开新笔记
+	 */
+	private async extractAnnotationToNote(location: RenderedAnnotationLocation, annotation: ParsedAnnotation) {
+		// 文件夹路径指向已有文件、路径无效等情况下创建会失败，需提示用户
+		try {
+			const sourceFile = this.app.vault.getFileByPath(location.sourcePath);
+			if (!sourceFile) return;
+
+			const { fileManager, vault } = this.app;
+			const folder = this.settings.extractFolder
+				? normalizePath(this.settings.extractFolder)
+				: fileManager.getNewFileParent(sourceFile.path).path;
+			if (folder !== "/" && !vault.getAbstractFileByPath(folder)) {
+				await vault.createFolder(folder);
+			}
+
+			const now = moment();
+			const variables: ExtractVariables = {
+				text: stripAnnotationTags(annotation.text),
+				note: annotation.note,
+				source: "",
+				title: sourceFile.basename,
+				date: now.format("YYYY-MM-DD"),
+				time: now.format("HH:mm"),
+			};
+			const baseName = buildExtractFileName(
+				this.settings.extractFileName || DEFAULT_EXTRACT_FILE_NAME,
+				variables,
+				`${this.t('extractFallbackName')} ${now.format("YYYY-MM-DD HHmmss")}`
+			);
+			const prefix = folder === "/" ? "" : `${folder}/`;
+			let path = `${prefix}${baseName}.md`;
+			for (let n = 2; vault.getAbstractFileByPath(path); n++) {
+				path = `${prefix}${baseName} ${n}.md`;
+			}
+
+			// 链接按各自所在位置生成，遵循用户的链接格式设置
+			variables.source = fileManager.generateMarkdownLink(sourceFile, path);
+			const file = await vault.create(path, renderExtractTemplate(this.settings.extractTemplate || DEFAULT_EXTRACT_TEMPLATE, variables));
+			const link = fileManager.generateMarkdownLink(file, sourceFile.path);
+			// 批注已找不到（如菜单打开后文件被修改）或写回出错时删除新笔记，避免留下无人链接的笔记
+			let linked = false;
+			try {
+				linked = await this.updateAnnotationInFile(location, current =>
+					this.buildEditedAnnotationHtml(current, linkNoteToExtract(current.note, link, this.settings.extractLinkMode), current.color, "")
+				);
+			} finally {
+				if (!linked) await fileManager.trashFile(file);
+			}
+			if (!linked) return;
+
+			new Notice(this.t('noticeExtracted', file.path));
+			await this.app.workspace.getLeaf('tab').openFile(file);
+		} catch (err) {
+			console.error('[hover-annotations] Failed to extract annotation', err);
+			new Notice(this.t('noticeExtractFailed', err instanceof Error ? err.message : String(err)));
+		}
+	}
+
+	/**
+	 * 阅读模式右键菜单：编辑、回复、解决 / 重新打开、修改颜色、删除与提取为笔记
+	 */
+	private handleReadingContextMenu(evt: MouseEvent) {
+		const target = evt.target;
+		if (!(target instanceof Node) || !target.instanceOf(HTMLElement)) return;
+		const span = getAnnotationElementStack(target).find(el => renderedAnnotationLocations.has(el));
+		const location = span ? renderedAnnotationLocations.get(span) : undefined;
+		if (!span || !location) return;
+
+		evt.preventDefault();
+		evt.stopPropagation();
+		this.hideTooltip();
+
+		const menu = new Menu();
+		menu.addItem((item) => {
+			item
+				.setTitle(this.t('ctxEdit'))
+				.setIcon("pencil")
+				.onClick(() => {
+					void this.editAnnotationInFile(location, false);
+				});
+		});
+
+		menu.addItem((item) => {
+			item
+				.setTitle(this.t('ctxReply'))
+				.setIcon("reply")
+				.onClick(() => {
+					void this.editAnnotationInFile(location, true);
+				});
+		});
+
+		const isResolved = span.getAttribute(STATUS_ATTRIBUTE) === 'resolved';
+		menu.addItem((item) => {
+			item
+				.setTitle(this.t(isResolved ? 'ctxReopen' : 'ctxResolve'))
+				.setIcon(isResolved ? "rotate-ccw" : "check-circle")
+				.onClick(() => {
+					void this.updateAnnotationInFile(location, annotation => this.buildStatusAnnotationHtml(annotation, isResolved ? 'open' : 'resolved'));
+				});
+		});
+
+		this.addColorSubmenu(menu, color => {
+			void this.updateAnnotationInFile(location, annotation => this.buildRecoloredAnnotationHtml(annotation, color));
+		});
+
+		menu.addItem((item) => {
+			item
+				.setTitle(this.t('ctxDelete'))
+				.setIcon("trash")
+				.onClick(() => {
+					void this.updateAnnotationInFile(location, annotation => annotation.text);
+				});
+		});
+
+		menu.addItem((item) => {
+			item
+				.setTitle(this.t('ctxExtract'))
+				.setIcon("file-output")
+				.onClick(() => {
+					void this.findAnnotationInFile(location).then(annotation => {
+						if (annotation) return this.extractAnnotationToNote(location, annotation);
+						new Notice(this.t('noticeNoAnnotation'));
+					}, (err) => {
+						console.error('[hover-annotations] Failed to read annotation', err);
+						new Notice(this.t('noticeNoAnnotation'));
+					});
+				});
+		});
+
+		menu.showAtMouseEvent(evt);
+	}
+
+	// --- 批注面板 / 跳转 ---
+
+	async activateAnnotationListView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_ANNOTATION_LIST)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({ type: VIEW_TYPE_ANNOTATION_LIST, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	async activateAnnotationBacklinksView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_ANNOTATION_BACKLINKS)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({ type: VIEW_TYPE_ANNOTATION_BACKLINKS, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	async activateAnnotationBrowserView() {
+		const { workspace } = this.app;
+		const existing = workspace.getLeavesOfType(VIEW_TYPE_ANNOTATION_BROWSER)[0];
+		if (existing) {
+			await workspace.revealLeaf(existing);
+			return;
+		}
+		const leaf = workspace.getLeaf('tab');
+		await leaf.setViewState({ type: VIEW_TYPE_ANNOTATION_BROWSER, active: true });
+		await workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * 语言切换等场景下重绘所有已打开的批注面板
+	 */
+	refreshAnnotationViews() {
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_ANNOTATION_LIST).forEach(leaf => {
+			if (leaf.view instanceof AnnotationListView) void leaf.view.refresh();
+		});
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_ANNOTATION_BROWSER).forEach(leaf => {
+			if (leaf.view instanceof AnnotationBrowserView) leaf.view.render();
+		});
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_ANNOTATION_BACKLINKS).forEach(leaf => {
+			if (leaf.view instanceof AnnotationBacklinksView) leaf.view.render();
+		});
+	}
+
+	// --- 批注索引 ---
+
+	private async initAnnotationIndex() {
+		await this.loadAnnotationIndex();
+
+		// 先注册事件再扫描，扫描期间的修改不会丢失；扫描跳过已由事件更新的文件
+		// metadataCache 的 changed 事件在文件新建/修改并解析后触发，并直接携带文件内容，无需再次读取
+		this.registerEvent(this.app.metadataCache.on('changed', (file, data) => {
+			if (file.extension !== 'md') return;
+			this.applyAnnotationIndexChange(this.annotationIndex.update(file.path, file.stat, data));
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			if (!(file instanceof TFile)) return;
+			this.applyAnnotationIndexChange(this.annotationIndex.remove(file.path));
+		}));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			if (!(file instanceof TFile)) return;
+			if (file.extension === 'md' && this.annotationIndex.has(oldPath)) {
+				this.applyAnnotationIndexChange(this.annotationIndex.rename(oldPath, file.path));
+			} else {
+				this.applyAnnotationIndexChange(this.annotationIndex.remove(oldPath));
+				// 由其他扩展名改为 .md 的文件此前未被索引
+				if (file.extension === 'md') void this.indexAnnotationFile(file);
+			}
+			void this.updateAnnotationLinksOnRename(file, oldPath);
+		}));
+
+		await this.reconcileAnnotationIndex(false);
+	}
+
+	private async indexAnnotationFile(file: TFile) {
+		const text = await this.app.vault.cachedRead(file);
+		this.applyAnnotationIndexChange(this.annotationIndex.update(file.path, file.stat, text));
+	}
+
+	/**
+	 * Obsidian 的链接更新看不到 data-note 中转义后的链接：文件重命名后，
+	 * 在索引中查找批注内容提到旧文件名的文件，并改写其中指向旧路径的链接
+	 */
+	private async updateAnnotationLinksOnRename(file: TFile, oldPath: string) {
+		if (!this.settings.updateLinksOnRename) return;
+
+		const stripMd = (path: string) => path.replace(/\.md$/i, "");
+		const oldLinkpath = stripMd(oldPath).toLowerCase();
+		const oldName = stripMd(oldPath.split("/").pop() ?? oldPath).toLowerCase();
+		// 仅大小写变化时链接仍可解析
+		if (stripMd(file.path).toLowerCase() === oldLinkpath) return;
+
+		// 索引已先按新路径更新，链接到自身的被重命名文件同样以新路径出现
+		const candidates = this.annotationIndex.getAnnotatedFiles().filter(item => item.entries.some(entry => {
+			const content = [entry.note, ...entry.replies.map(reply => reply.text)].join("\n").toLowerCase();
+			return content.includes(oldName) || content.includes(oldName.replace(/ /g, "%20"));
+		}));
+
+		let updated = 0;
+		for (const item of candidates) {
+			const target = this.app.vault.getFileByPath(item.path);
+			if (!target) continue;
+			const sourcePath = target.path;
+			const rename: LinkRename = {
+				isTarget: linkpath => {
+					const path = stripMd(linkpath).toLowerCase();
+					if (path === oldLinkpath) return true;
+					// 只写文件名的链接：现在已无法解析，说明原本指向的就是被重命名的文件
+					return !path.includes("/") && path === oldName && !this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+				},
+				wikilink: this.app.metadataCache.fileToLinktext(file, sourcePath, true),
+				markdownLink: file.path
+			};
+			await this.app.vault.process(target, text => {
+				const result = renameLinksInAnnotations(text, rename);
+				updated += result.count;
+				return result.text;
+			});
+		}
+		if (updated > 0) new Notice(this.t('noticeAnnotationLinksUpdated', updated));
+	}
+
+	/**
+	 * 只重新读取 mtime/size 变化过的文件；force 时重建整个索引
+	 */
+	private async reconcileAnnotationIndex(force: boolean) {
+		const files = this.app.vault.getMarkdownFiles();
+		if (force) this.annotationIndex = new AnnotationIndex();
+		this.annotationIndex.prune(new Set(files.map(file => file.path)));
+
+		for (const file of files) {
+			// 扫描期间被删除或重命名的文件由对应事件处理
+			if (this.app.vault.getFileByPath(file.path) !== file) continue;
+			if (this.annotationIndex.isFresh(file.path, file.stat)) continue;
+			const text = await this.app.vault.cachedRead(file);
+			// 读取期间文件可能已被事件更新为更新的内容
+			if (this.annotationIndex.isFresh(file.path, file.stat)) continue;
+			this.annotationIndex.update(file.path, file.stat, text);
+		}
+
+		this.annotationIndexReady = true;
+		this.applyAnnotationIndexChange(true);
+	}
+
+	async rebuildAnnotationIndex() {
+		this.annotationIndexReady = false;
+		this.notifyAnnotationIndexChanged();
+		await this.reconcileAnnotationIndex(true);
+	}
+
+	private applyAnnotationIndexChange(entriesChanged: boolean) {
+		// 即使批注未变化，mtime 也需要持久化，避免下次启动重复读取
+		this.requestSaveIndex();
+		if (entriesChanged) this.notifyAnnotationIndexChanged();
+	}
+
+	private notifyAnnotationIndexChanged() {
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_ANNOTATION_BROWSER).forEach(leaf => {
+			if (leaf.view instanceof AnnotationBrowserView) leaf.view.render();
+		});
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_ANNOTATION_BACKLINKS).forEach(leaf => {
+			if (leaf.view instanceof AnnotationBacklinksView) leaf.view.requestRender();
+		});
+	}
+
+	findMarkdownLeaf(file: TFile): WorkspaceLeaf | null {
+		const recent = this.app.workspace.getMostRecentLeaf();
+		if (recent?.view instanceof MarkdownView && recent.view.file === file) return recent;
+		return this.app.workspace.getLeavesOfType('markdown')
+			.find(leaf => leaf.view instanceof MarkdownView && leaf.view.file === file) ?? null;
+	}
+
+	/**
+	 * 通过实时区域让屏幕阅读器朗读批注：编辑模式取光标处的批注，阅读模式取当前聚焦的批注元素
+	 */
+	readAnnotationAloud() {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		let announcement: string | null = null;
+		if (view?.getMode() === 'source') {
+			const existing = this.findAnnotationAtCursor(view.editor);
+			if (existing) {
+				const { annotation } = existing;
+				announcement = this.formatAnnouncement(stripAnnotationTags(annotation.text), annotation.note, getAnnotationReplies(annotation.attributes));
+			}
+		} else {
+			const focused = activeDocument.activeElement;
+			if (focused instanceof Node && focused.instanceOf(HTMLElement) && focused.hasClass('ob-comment')) {
+				const layer = this.getAnnotationLayers(focused).find(item => item.el === focused);
+				if (layer) announcement = this.formatAnnouncement(focused.textContent ?? "", layer.note, parseReplies(layer.rawReplies));
 			}
 		}
-		return null;
+
+		if (!announcement) {
+			new Notice(this.t('noticeNoAnnotation'));
+			announcement = this.t('noticeNoAnnotation');
+		}
+		this.announce(announcement);
+	}
+
+	private formatAnnouncement(text: string, note: string, replies: AnnotationReply[]): string {
+		const parts = [this.t('announceAnnotation', text.trim()) + note];
+		if (replies.length > 0) {
+			parts.push(this.t('announceReplies', replies.length) + replies.map(reply => reply.author ? `${reply.author}: ${reply.text}` : reply.text).join("; "));
+		}
+		return parts.join("\n");
+	}
+
+	/**
+	 * 写入视觉上隐藏的 aria-live 区域；先清空再写入，重复朗读同一内容时也会被播报
+	 */
+	private announce(message: string) {
+		const doc = activeDocument;
+		if (!this.liveRegionEl || this.liveRegionEl.doc !== doc) {
+			this.liveRegionEl?.remove();
+			this.liveRegionEl = doc.body.createDiv({ cls: 'ob-annotation-live-region', attr: { role: 'status', 'aria-live': 'polite' } });
+		}
+		const liveRegionEl = this.liveRegionEl;
+		liveRegionEl.empty();
+		window.setTimeout(() => liveRegionEl.setText(message), 50);
+	}
+
+	/**
+	 * 跳转到下一条 / 上一条批注：编辑模式移动光标，阅读模式滚动到批注所在行；到达一端时回绕
+	 */
+	navigateAnnotation(direction: NavigationDirection) {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const file = view?.file;
+		if (!view || !file) {
+			new Notice(this.t('noticeOpenDoc'));
+			return;
+		}
+
+		const text = view.getViewData();
+		const isEditing = view.getMode() === 'source';
+		const offset = isEditing ? view.editor.posToOffset(view.editor.getCursor()) : this.getReadingNavigationOffset(view, text);
+		const target = findAdjacentAnnotation(findRenderedAnnotations(text), offset, direction, this.settings.navigationColor);
+		if (!target) {
+			new Notice(this.t('noticeNoAnnotationToNavigate'));
+			return;
+		}
+		if (target.wrapped) new Notice(this.t(direction === 'next' ? 'noticeNavigationWrappedTop' : 'noticeNavigationWrappedBottom'));
+
+		const { annotation } = target;
+		if (isEditing) {
+			const from = view.editor.offsetToPos(annotation.from);
+			view.editor.setCursor(from);
+			view.editor.scrollIntoView({ from, to: view.editor.offsetToPos(annotation.to) }, true);
+			return;
+		}
+
+		const location = { sourcePath: file.path, from: annotation.from };
+		this.readingNavigation = { ...location, scroll: -1 };
+		view.previewMode.applyScroll(text.slice(0, annotation.from).split("\n").length - 1);
+		// 滚动后所在段落才会渲染，稍后再定位批注元素
+		window.setTimeout(() => {
+			if (this.readingNavigation?.sourcePath !== location.sourcePath || this.readingNavigation.from !== location.from) return;
+			const el = Array.from(view.previewMode.containerEl.querySelectorAll<HTMLElement>('.ob-comment')).find(item => {
+				const rendered = renderedAnnotationLocations.get(item);
+				return rendered?.sourcePath === location.sourcePath && rendered.from === location.from;
+			});
+			el?.scrollIntoView({ block: 'center' });
+			this.readingNavigation.scroll = view.previewMode.getScroll();
+			if (el && this.settings.navigationShowTooltip) this.showTooltip(null, el);
+		}, 50);
+	}
+
+	/**
+	 * 阅读模式没有光标：从上次跳转到的批注出发；用户滚动过页面时改为从可见区域顶部出发
+	 */
+	private getReadingNavigationOffset(view: MarkdownView, text: string): number {
+		const scroll = view.previewMode.getScroll();
+		const last = this.readingNavigation;
+		if (last && last.sourcePath === view.file?.path && Math.abs(last.scroll - scroll) < 1) return last.from;
+		// 可见区域顶部行首之前，使该行开头的批注也算作“下一条”
+		return getLineOffset(text, Math.floor(scroll)) - 1;
+	}
+
+	/**
+	 * 读取文件内容：若已在编辑器中打开则使用未保存的实时内容
+	 */
+	async readMarkdownText(file: TFile): Promise<string> {
+		const view = this.findMarkdownLeaf(file)?.view;
+		if (view instanceof MarkdownView) return view.getViewData();
+		return this.app.vault.cachedRead(file);
+	}
+
+	/**
+	 * 跳转到指定批注：编辑模式下选中批注源码，阅读模式下滚动到所在行
+	 */
+	async revealAnnotation(file: TFile, entry: AnnotationOffsetRange & { line: number }) {
+		let leaf = this.findMarkdownLeaf(file);
+		if (!leaf) {
+			leaf = this.app.workspace.getLeaf(false);
+			await leaf.openFile(file);
+		}
+		this.app.workspace.setActiveLeaf(leaf, { focus: true });
+
+		const view = leaf.view;
+		if (!(view instanceof MarkdownView)) return;
+		if (view.getMode() === 'source') {
+			const from = view.editor.offsetToPos(entry.from);
+			const to = view.editor.offsetToPos(entry.to);
+			view.editor.setCursor(from);
+			view.editor.scrollIntoView({ from, to }, true);
+		} else {
+			view.previewMode.applyScroll(entry.line);
+		}
+	}
+
+	// --- Tooltip 相关逻辑 ---
+	createTooltipElement() {
+		const tooltipEl = document.body.createDiv({ cls: ['ob-annotation-tooltip', 'ob-annotation-note-content'], attr: { id: TOOLTIP_ELEMENT_ID, role: 'tooltip', 'aria-hidden': 'true' } });
+		this.tooltipEl = tooltipEl;
+
+		// 悬浮桥：鼠标移入悬浮框时保持显示，移出后延迟隐藏
+		this.registerDomEvent(tooltipEl, 'mouseenter', () => {
+			this.cancelTooltipHide();
+		});
+		this.registerDomEvent(tooltipEl, 'mouseleave', () => {
+			this.scheduleHideTooltip();
+		});
+
+		this.handleInternalLinks(tooltipEl, this.tooltipHoverParent, () => this.tooltipSourcePath, () => this.hideTooltip());
+	}
+
+	/**
+	 * 悬浮框与卡片不属于任何视图，内部链接的点击与页面预览需要自行处理
+	 */
+	handleInternalLinks(containerEl: HTMLElement, hoverParent: HoverParent, getSourcePath: () => string, onOpen?: () => void) {
+		const getLink = (evt: MouseEvent) => {
+			const link = (evt.target as HTMLElement).closest<HTMLElement>('a.internal-link');
+			const linktext = link?.getAttr('data-href') ?? link?.getAttr('href');
+			return link && linktext ? { link, linktext } : null;
+		};
+
+		containerEl.addEventListener('click', (evt: MouseEvent) => {
+			const target = getLink(evt);
+			if (!target) return;
+			evt.preventDefault();
+			void this.app.workspace.openLinkText(target.linktext, getSourcePath(), Keymap.isModEvent(evt));
+			onOpen?.();
+		});
+		containerEl.addEventListener('mouseover', (evt: MouseEvent) => {
+			const target = getLink(evt);
+			if (!target) return;
+			this.app.workspace.trigger('hover-link', {
+				event: evt,
+				source: this.manifest.id,
+				hoverParent,
+				targetEl: target.link,
+				linktext: target.linktext,
+				sourcePath: getSourcePath()
+			});
+		});
+	}
+
+	/**
+	 * target 及其外层所有批注（由内到外）；跳过空批注与被隐藏的已解决批注
+	 */
+	getAnnotationLayers(target: HTMLElement): AnnotationLayer[] {
+		// 解码 data-note 中的 HTML 实体（如 &#10; -> \n），确保 Markdown 表格等语法能正确识别换行
+		return getAnnotationElementStack(target)
+			.map(el => ({
+				el,
+				note: decodeDataNote(el.getAttribute('data-note') ?? ""),
+				meta: formatAnnotationMetadata(readAnnotationMetadata(name => el.getAttribute(name)), this.t.bind(this)),
+				rawReplies: el.getAttribute(REPLIES_ATTRIBUTE) ?? "",
+				resolved: el.getAttribute(STATUS_ATTRIBUTE) === "resolved"
+			}))
+			.filter(layer => layer.note && !(layer.resolved && this.settings.hideResolved));
+	}
+
+	/**
+	 * 批注元素在源文件中的位置：阅读模式由后处理器记录，实时预览通过 CodeMirror 反查
+	 */
+	getAnnotationSourceLocation(el: HTMLElement): RenderedAnnotationLocation | null {
+		// 返回副本：卡片会随编辑更新自己持有的位置
+		const rendered = renderedAnnotationLocations.get(el);
+		if (rendered) return { ...rendered };
+
+		const view = EditorView.findFromDOM(el);
+		const file = view?.state.field(editorInfoField, false)?.file;
+		if (!view || !file) return null;
+		const pos = view.posAtDOM(el);
+		const stack = findAnnotationsAtOffset(parseAnnotations(view.state.doc.toString()).annotations, pos);
+		// 嵌套批注从同一位置开始时，优先取正文恰好从该位置开始的那一层
+		const annotation = stack.filter(item => item.inner.from === pos).pop() ?? stack[stack.length - 1];
+		return annotation ? { sourcePath: file.path, ...createAnnotationLocator(annotation) } : null;
+	}
+
+	async revealAnnotationAt(location: RenderedAnnotationLocation) {
+		const file = this.app.vault.getFileByPath(location.sourcePath);
+		if (!file) return;
+		const text = await this.readMarkdownText(file);
+		const annotation = findLocatedAnnotation(parseAnnotations(text).annotations, location);
+		if (!annotation) {
+			new Notice(this.t('noticeNoAnnotation'));
+			return;
+		}
+		location.from = annotation.from;
+		await this.revealAnnotation(file, { from: annotation.from, to: annotation.to, line: text.slice(0, annotation.from).split("\n").length - 1 });
+	}
+
+	/**
+	 * 将批注固定为浮动卡片；position 为空时放在批注下方
+	 */
+	pinAnnotation(target: HTMLElement, position: { left: number; top: number } | null) {
+		const layers = this.getAnnotationLayers(target);
+		if (layers.length === 0) return;
+
+		const sourcePath = this.getAnnotationSourceLocation(layers[0].el)?.sourcePath || this.app.workspace.getActiveFile()?.path || "";
+		// 多张卡片错开放置，避免完全重叠
+		const offset = (this.pinnedCards.size % 8) * 24;
+		const rect = target.getBoundingClientRect();
+		const card = new AnnotationCard(this, layers, sourcePath, target.doc, position ?? { left: rect.left + offset, top: rect.bottom + TOOLTIP_GAP + offset });
+		card.onClosed = () => this.pinnedCards.delete(card);
+		this.pinnedCards.add(card);
+	}
+
+	pinTooltip() {
+		const target = this.tooltipTarget;
+		if (!this.tooltipEl || !target) return;
+		const rect = this.tooltipEl.getBoundingClientRect();
+		this.hideTooltip();
+		this.pinAnnotation(target, { left: rect.left, top: rect.top });
+	}
+
+	createActionButton(parentEl: HTMLElement, icon: string, label: string, onClick: () => void): HTMLElement {
+		const button = parentEl.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': label } });
+		setIcon(button, icon);
+		button.addEventListener('click', (evt) => {
+			evt.stopPropagation();
+			onClick();
+		});
+		return button;
+	}
+
+	/**
+	 * 为每层批注创建内容区域：正文、元数据与回复，以及编辑、复制按钮（最内层可额外带固定按钮）
+	 */
+	createLayerSections(layers: AnnotationLayer[], options: LayerSectionOptions = {}): LayerSection[] {
+		return layers.map((layer, i) => {
+			const el = document.createElement('div');
+			if (layers.length > 1) {
+				el.addClass('ob-annotation-tooltip-layer');
+				el.style.borderLeftColor = getComputedStyle(layer.el).getPropertyValue('--highlight-color').trim();
+			}
+
+			const actionsEl = el.createDiv({ cls: 'ob-annotation-tooltip-actions' });
+			const noteEl = createDiv();
+			if (options.onPin && i === 0) this.createActionButton(actionsEl, 'pin', this.t('tooltipPin'), options.onPin);
+			const getEditComponent = options.editComponent;
+			const location = !getEditComponent ? null
+				: options.locations ? options.locations[i] : this.getAnnotationSourceLocation(layer.el);
+			if (getEditComponent && location) {
+				this.createActionButton(actionsEl, 'pencil', this.t('tooltipEdit'), () => {
+					const component = getEditComponent();
+					if (component) this.startInlineEdit(layer, location, noteEl, component);
+				});
+			}
+			this.createActionButton(actionsEl, 'copy', this.t('tooltipCopy'), () => {
+				navigator.clipboard.writeText(layer.note).then(
+					() => new Notice(this.t('noticeNoteCopied')),
+					(err) => {
+						console.error('[hover-annotations] Failed to copy note', err);
+						new Notice(this.t('noticeCopyFailed'));
+					}
+				);
+			});
+
+			// 需要渲染的文本块：批注正文（元数据显示在其下方）以及紧凑排列的回复
+			el.appendChild(noteEl);
+			const blocks: LayerSection['blocks'] = [{ text: layer.note, el: noteEl }];
+			if (layer.meta) el.createDiv({ cls: 'ob-annotation-tooltip-meta', text: layer.meta });
+
+			parseReplies(layer.rawReplies).forEach(reply => {
+				const replyEl = el.createDiv({ cls: 'ob-annotation-tooltip-reply' });
+				const meta = formatReplyMeta(reply, this.t.bind(this));
+				if (meta) replyEl.createDiv({ cls: 'ob-annotation-tooltip-meta', text: meta });
+				blocks.push({ text: reply.text, el: replyEl.createDiv() });
+			});
+			return { el, blocks };
+		});
+	}
+
+	/**
+	 * 渲染各层的文本块：开启 Markdown 时使用 MarkdownRenderer，否则显示纯文本
+	 */
+	async renderLayerSections(sections: LayerSection[], sourcePath: string, component: Component): Promise<void> {
+		const blocks = sections.reduce((all, section) => all.concat(section.blocks), [] as LayerSection['blocks']);
+		await Promise.all(blocks.map(block => this.renderNoteBlock(block.text, block.el, sourcePath, component)));
+	}
+
+	private async renderNoteBlock(text: string, el: HTMLElement, sourcePath: string, component: Component): Promise<void> {
+		if (this.settings.enableMarkdown) {
+			await MarkdownRenderer.render(this.app, text, el, sourcePath, component);
+		} else {
+			// 关闭 Markdown 渲染时，直接显示纯文本
+			el.createEl("pre", { text, cls: "ob-annotation-tooltip-plain" });
+		}
+	}
+
+	/**
+	 * 将悬浮框 / 卡片中渲染好的批注正文替换为输入框，保存后按与编辑弹窗相同的方式写回源文件
+	 */
+	private startInlineEdit(layer: AnnotationLayer, location: RenderedAnnotationLocation, noteEl: HTMLElement, component: Component) {
+		if (noteEl.hasClass('is-editing')) return;
+		noteEl.addClass('is-editing');
+		noteEl.empty();
+
+		const inputEl = noteEl.createEl('textarea', { cls: 'ob-annotation-inline-input', attr: { rows: '3' } });
+		inputEl.value = layer.note;
+		const adjustHeight = () => {
+			inputEl.setCssProps({ height: 'auto' });
+			inputEl.setCssProps({ height: inputEl.scrollHeight + 'px' });
+		};
+		inputEl.addEventListener('input', adjustHeight);
+
+		const finish = (note: string) => {
+			noteEl.removeClass('is-editing');
+			noteEl.empty();
+			this.renderNoteBlock(note, noteEl, location.sourcePath, component).catch((err) => {
+				console.error('[hover-annotations] Failed to render note', err);
+			});
+		};
+		// 写回失败（找不到批注或写入出错）时保留输入框，避免显示未保存的内容
+		let saving = false;
+		const save = async () => {
+			const note = inputEl.value;
+			if (saving) return;
+			if (note === layer.note) {
+				finish(note);
+				return;
+			}
+			let saved = false;
+			saving = true;
+			try {
+				saved = await this.updateAnnotationInFile(location, annotation => this.buildEditedAnnotationHtml(annotation, note, annotation.color, ""));
+			} catch (err) {
+				console.error('[hover-annotations] Failed to save annotation', err);
+				new Notice(this.t('noticeSaveFailed'));
+			}
+			saving = false;
+			if (!saved) {
+				inputEl.focus();
+				return;
+			}
+			layer.note = note;
+			location.note = note;
+			finish(note);
+		};
+
+		inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+			if (evt.key === 'Escape') {
+				evt.preventDefault();
+				evt.stopPropagation();
+				finish(layer.note);
+				return;
+			}
+			if (evt.key !== 'Enter') return;
+			if (isShortcutEvent(evt, this.settings.submitShortcut)) {
+				evt.preventDefault();
+				void save();
+				return;
+			}
+			if (isShortcutEvent(evt, this.settings.newlineShortcut)) {
+				evt.preventDefault();
+				inputEl.setRangeText("\n", inputEl.selectionStart, inputEl.selectionEnd, "end");
+				adjustHeight();
+				return;
+			}
+			evt.preventDefault();
+		});
+
+		const buttonsEl = noteEl.createDiv({ cls: 'ob-annotation-inline-buttons' });
+		buttonsEl.createEl('button', { text: this.t('modalCancel') }).addEventListener('click', () => finish(layer.note));
+		buttonsEl.createEl('button', { cls: 'mod-cta', text: this.t('inlineEditSave') }).addEventListener('click', () => { void save(); });
+		buttonsEl.createSpan({ cls: 'ob-annotation-inline-hint', text: formatModalKeyHint(this.t.bind(this), this.settings.submitShortcut, this.settings.newlineShortcut) });
+
+		// 编辑期间悬浮框尺寸变化，重新定位
+		if (this.tooltipEl?.contains(noteEl)) this.updateTooltipPosition();
+		adjustHeight();
+		inputEl.focus();
+		inputEl.setSelectionRange(inputEl.value.length, inputEl.value.length);
+	}
+
+	/**
+	 * 悬浮框中正在原位编辑批注时，保持显示直到保存或取消
+	 */
+	private isTooltipEditing(): boolean {
+		return !!this.tooltipEl?.querySelector('.is-editing');
+	}
+
+	private isInsideTooltip(target: EventTarget | null): boolean {
+		return !!this.tooltipEl && target instanceof Node && this.tooltipEl.contains(target);
+	}
+
+	private cancelTooltipShow() {
+		if (this.tooltipShowTimer === null) return;
+		window.clearTimeout(this.tooltipShowTimer);
+		this.tooltipShowTimer = null;
+	}
+
+	private cancelTooltipHide() {
+		if (this.tooltipHideTimer === null) return;
+		window.clearTimeout(this.tooltipHideTimer);
+		this.tooltipHideTimer = null;
+	}
+
+	/**
+	 * 悬停意图：鼠标停留一段时间后才显示；悬浮框已显示时（如在嵌套批注间移动）立即切换
+	 */
+	private scheduleShowTooltip(pointer: TooltipPointer, target: HTMLElement) {
+		this.cancelTooltipHide();
+		this.cancelTooltipShow();
+		const delay = this.settings.tooltipShowDelay;
+		if (delay <= 0 || this.tooltipEl?.hasClass('is-visible')) {
+			this.showTooltip(pointer, target);
+			return;
+		}
+		this.tooltipShowTimer = window.setTimeout(() => {
+			this.tooltipShowTimer = null;
+			this.showTooltip(pointer, target);
+		}, delay);
 	}
 
-	// --- Tooltip 相关逻辑 ---
-	createTooltipElement() {
-		this.tooltipEl = document.body.createDiv({ cls: 'ob-annotation-tooltip' });
+	private scheduleHideTooltip() {
+		this.cancelTooltipShow();
+		if (this.isTooltipEditing()) return;
+		if (this.tooltipHideTimer !== null) return;
+		const delay = this.settings.tooltipHideDelay;
+		if (delay <= 0) {
+			this.hideTooltip();
+			return;
+		}
+		this.tooltipHideTimer = window.setTimeout(() => {
+			this.tooltipHideTimer = null;
+			this.hideTooltip();
+		}, delay);
 	}
 
 	private unloadTooltipRenderComponent() {
@@ -862,60 +2730,98 @@ export default class AnnotationPlugin extends Plugin {
 		this.tooltipRenderComponent = null;
 	}
 
-	private updateTooltipPosition(evt: MouseEvent) {
-		if (!this.tooltipEl) return;
-
-		const x = evt.pageX;
-		const y = evt.pageY - 40;
-		this.tooltipEl.style.left = `${x}px`;
-		this.tooltipEl.style.top = `${y}px`;
+	/**
+	 * 以批注元素的各行矩形为锚点定位悬浮框：上下翻转、左右平移以留在窗口内，过高时限制高度并在内部滚动
+	 */
+	private updateTooltipPosition() {
+		const tooltipEl = this.tooltipEl;
+		const target = this.tooltipTarget;
+		if (!tooltipEl || !target) return;
+
+		const rects = Array.from(target.getClientRects());
+		if (rects.length === 0) rects.push(target.getBoundingClientRect());
+
+		// 先取消高度限制，按内容的自然尺寸计算
+		tooltipEl.style.maxHeight = '';
+		const pointer = this.tooltipPointer;
+		const position = computeTooltipPosition(
+			rects,
+			{ width: tooltipEl.offsetWidth, height: tooltipEl.offsetHeight },
+			{ width: target.win.innerWidth, height: target.win.innerHeight },
+			pointer ? { x: pointer.clientX, y: pointer.clientY } : null
+		);
+		tooltipEl.style.left = `${position.left}px`;
+		tooltipEl.style.top = `${position.top}px`;
+		tooltipEl.style.maxHeight = `${position.maxHeight}px`;
+		tooltipEl.toggleClass('is-below', position.placement === 'below');
 	}
 
-	showTooltip(evt: MouseEvent, text: string) {
+	/**
+	 * 显示 target 及其外层所有批注的内容（嵌套批注由内到外依次排列）
+	 */
+	showTooltip(pointer: TooltipPointer | null, target: HTMLElement) {
 		if (!this.tooltipEl) return;
-		
+
+		if (this.isTooltipEditing()) return;
+		const layers = this.getAnnotationLayers(target);
+		if (layers.length === 0) return;
+
+		// 弹出窗口中的批注：悬浮框需要移动到该窗口的文档中
+		if (this.tooltipEl.doc !== target.doc) target.doc.body.appendChild(this.tooltipEl);
+		// 屏幕阅读器：将悬浮框内容作为批注元素的描述，内容渲染完成后再关联，避免朗读为空
+		if (this.tooltipTarget !== target) this.tooltipTarget?.removeAttribute('aria-describedby');
+		this.tooltipTarget = target;
+		this.tooltipPointer = pointer;
 		this.tooltipEl.addClass('is-visible');
-		this.updateTooltipPosition(evt);
+		this.tooltipEl.setAttribute('aria-hidden', 'false');
+		this.updateTooltipPosition();
 
-		// tooltip content is rendered below (after renderKey check)
-		// 解码 text 中的 HTML 实体（如 &#10; -> \n），确保 Markdown 表格等语法能正确识别换行
-		const decodedText = decodeDataNote(text);
 		// 使用当前激活文件的路径作为 sourcePath，以支持相对路径链接等
-		const sourcePath = this.app.workspace.getActiveFile()?.path || "";
-		const renderKey = `${this.settings.enableMarkdown ? "md" : "text"}|${sourcePath}|${decodedText}`;
-		if (renderKey === this.tooltipLastRenderKey) return;
+		const sourcePath = renderedAnnotationLocations.get(target)?.sourcePath || this.app.workspace.getActiveFile()?.path || "";
+		this.tooltipSourcePath = sourcePath;
+		const renderKey = `${this.settings.enableMarkdown ? "md" : "text"}|${sourcePath}|${layers.map(layer => `${layer.note}\u0001${layer.meta}\u0001${layer.rawReplies}`).join("\u0000")}`;
+		if (renderKey === this.tooltipLastRenderKey) {
+			target.setAttribute('aria-describedby', TOOLTIP_ELEMENT_ID);
+			return;
+		}
 		this.tooltipLastRenderKey = renderKey;
+		target.removeAttribute('aria-describedby');
 
 		this.tooltipEl.empty();
 		this.unloadTooltipRenderComponent();
 
-		if (this.settings.enableMarkdown) {
-			const renderId = ++this.tooltipRenderId;
-			const component = new Component();
-			component.load();
-			this.tooltipRenderComponent = component;
-
-			const renderContainer = document.createElement('div');
-			void MarkdownRenderer.render(this.app, decodedText, renderContainer, sourcePath, component)
-				.then(() => {
-					if (!this.tooltipEl) return;
-					if (renderId !== this.tooltipRenderId) return;
-					this.tooltipEl.empty();
-					this.tooltipEl.appendChild(renderContainer);
-				})
-				.catch((err) => {
-					console.error('[hover-annotations] Failed to render tooltip markdown', err);
-				});
-		} else {
-			// 关闭 Markdown 渲染时，直接显示纯文本
-			this.tooltipEl.createEl("pre", { text: decodedText, cls: "ob-annotation-tooltip-plain" });
-		}
+		const component = new Component();
+		component.load();
+		this.tooltipRenderComponent = component;
+		const renderId = ++this.tooltipRenderId;
+		const sections = this.createLayerSections(layers, { onPin: () => this.pinTooltip(), editComponent: () => this.tooltipRenderComponent });
+
+		void this.renderLayerSections(sections, sourcePath, component)
+			.then(() => {
+				if (!this.tooltipEl) return;
+				if (renderId !== this.tooltipRenderId) return;
+				this.tooltipEl.empty();
+				sections.forEach(section => this.tooltipEl?.appendChild(section.el));
+				if (this.tooltipTarget === target) target.setAttribute('aria-describedby', TOOLTIP_ELEMENT_ID);
+				// 内容渲染完成后尺寸才确定，重新定位
+				this.updateTooltipPosition();
+			})
+			.catch((err) => {
+				console.error('[hover-annotations] Failed to render tooltip markdown', err);
+			});
 
 	}
 
 	hideTooltip() {
+		this.cancelTooltipShow();
+		this.cancelTooltipHide();
 		if (!this.tooltipEl) return;
 		this.tooltipEl.removeClass('is-visible');
+		// 隐藏时仅为透明，需对辅助技术同样隐藏
+		this.tooltipEl.setAttribute('aria-hidden', 'true');
+		this.tooltipTarget?.removeAttribute('aria-describedby');
+		this.tooltipTarget = null;
+		this.tooltipPointer = null;
 
 		this.tooltipRenderId++;
 		this.tooltipLastRenderKey = null;
@@ -951,7 +2857,12 @@ export default class AnnotationPlugin extends Plugin {
 	 */
 	private async normalizeAllMarkdownFiles() {
 		new Notice(this.t('noticeScanStart'));
-		const files = this.app.vault.getMarkdownFiles();
+		// 索引就绪时只需检查包含批注的文件
+		const files = this.annotationIndexReady
+			? this.annotationIndex.getAnnotatedFiles()
+				.map(entry => this.app.vault.getFileByPath(entry.path))
+				.filter((file): file is TFile => file !== null)
+			: this.app.vault.getMarkdownFiles();
 		const filesToFix: TFile[] = [];
 
 		// 1. 扫描阶段
@@ -987,6 +2898,191 @@ export default class AnnotationPlugin extends Plugin {
 		}
 		new Notice(this.t('noticeFixedVault', fixedCount));
 	}
+
+	// --- 批注与脚注互转 ---
+
+	private convertFootnotesInEditor(editor: Editor, direction: 'to-footnotes' | 'to-annotations') {
+		const docText = editor.getValue();
+		const range = editor.somethingSelected()
+			? { from: editor.posToOffset(editor.getCursor('from')), to: editor.posToOffset(editor.getCursor('to')) }
+			: undefined;
+		const { text, count } = direction === 'to-footnotes'
+			? convertAnnotationsToFootnotes(docText, range)
+			: convertFootnotesToAnnotations(docText, { range, color: this.settings.defaultColor });
+
+		if (count === 0) {
+			new Notice(this.t(direction === 'to-footnotes' ? 'noticeNoAnnotationToConvert' : 'noticeNoFootnoteToConvert'));
+			return;
+		}
+
+		// 使用 replaceRange 替代 setValue 以保留撤销历史
+		const lastLine = editor.lastLine();
+		const lastLineLen = editor.getLine(lastLine).length;
+		editor.replaceRange(text, { line: 0, ch: 0 }, { line: lastLine, ch: lastLineLen });
+		new Notice(direction === 'to-footnotes' ? this.t('noticeConvertedToFootnotes', count) : this.t('noticeImported', count));
+	}
+
+	// --- 从其他批注写法导入 ---
+
+	private convertForeignText(text: string) {
+		return convertForeignAnnotations(text, { sources: this.settings.importSources, color: this.settings.defaultColor });
+	}
+
+	private importCurrentFileAnnotations(editor: Editor, path: string) {
+		const { conversions } = this.convertForeignText(editor.getValue());
+		if (conversions.length === 0) {
+			new Notice(this.t('noticeImportNone'));
+			return;
+		}
+
+		new ImportPreviewModal(this.app, [{ path, conversions }], () => {
+			// 确认时重新转换，保证使用的是最新的文档内容
+			const { text, conversions: applied } = this.convertForeignText(editor.getValue());
+			const lastLine = editor.lastLine();
+			const lastLineLen = editor.getLine(lastLine).length;
+			editor.replaceRange(text, { line: 0, ch: 0 }, { line: lastLine, ch: lastLineLen });
+			new Notice(this.t('noticeImported', applied.length));
+		}, this.t.bind(this)).open();
+	}
+
+	/**
+	 * 扫描全库，预览后将其他写法的高亮与注释转换为批注
+	 */
+	async importAllMarkdownFiles() {
+		new Notice(this.t('noticeScanStart'));
+		// 其他写法不在批注索引中，需要扫描所有 Markdown 文件
+		const filesToConvert: TFile[] = [];
+		const previews: ImportPreview[] = [];
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const { conversions } = this.convertForeignText(await this.app.vault.cachedRead(file));
+			if (conversions.length > 0) {
+				filesToConvert.push(file);
+				previews.push({ path: file.path, conversions });
+			}
+		}
+
+		if (filesToConvert.length === 0) {
+			new Notice(this.t('noticeImportNone'));
+			return;
+		}
+
+		new ImportPreviewModal(this.app, previews, () => {
+			void this.applyImportToFiles(filesToConvert);
+		}, this.t.bind(this)).open();
+	}
+
+	private async applyImportToFiles(filesToConvert: TFile[]) {
+		let convertedCount = 0;
+		for (const file of filesToConvert) {
+			const original = await this.app.vault.read(file);
+			const { text, conversions } = this.convertForeignText(original);
+			if (conversions.length > 0) {
+				await this.app.vault.modify(file, text);
+				convertedCount += conversions.length;
+			}
+		}
+		new Notice(this.t('noticeImported', convertedCount));
+	}
+
+	// --- 批注导出 ---
+
+	openExportModal() {
+		const activeFolder = this.app.workspace.getActiveFile()?.parent?.path ?? "";
+		new ExportModal(this.app, this, activeFolder === "/" ? "" : activeFolder).open();
+	}
+
+	/**
+	 * 收集导出范围内的批注；索引就绪时直接使用索引，否则读取文件
+	 */
+	async collectExportFiles(scope: ExportScope, folder: string): Promise<AnnotatedFile[] | null> {
+		if (scope === 'file') {
+			const file = this.app.workspace.getActiveFile();
+			if (!file || file.extension !== 'md') return null;
+			return [{ path: file.path, entries: collectAnnotationsInText(await this.readMarkdownText(file)) }];
+		}
+
+		const folderFilter: AnnotationFilter = { color: null, folder: scope === 'folder' ? folder : "", query: "" };
+		if (this.annotationIndexReady) {
+			return filterAnnotatedFiles(this.annotationIndex.getAnnotatedFiles(), folderFilter);
+		}
+
+		const files: AnnotatedFile[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const text = await this.app.vault.cachedRead(file);
+			if (text.includes("ob-comment")) files.push({ path: file.path, entries: collectAnnotationsInText(text) });
+		}
+		files.sort((a, b) => a.path.localeCompare(b.path));
+		return filterAnnotatedFiles(files, folderFilter);
+	}
+
+	private async buildAnnotationExport(scope: ExportScope, folder: string, format: ExportFormat): Promise<string | null> {
+		const files = await this.collectExportFiles(scope, folder);
+		if (!files) {
+			new Notice(this.t('noticeOpenDoc'));
+			return null;
+		}
+		const records = buildExportRecords(files);
+		if (records.length === 0) {
+			new Notice(this.t('noticeExportEmpty'));
+			return null;
+		}
+
+		return formatAnnotationExport(records, format, {
+			labels: {
+				title: this.t('exportTitle'),
+				original: this.t('exportOriginal'),
+				annotation: this.t('exportAnnotation'),
+				line: (line: number) => this.t('exportLine', line),
+				reply: this.t('exportReply'),
+				resolved: this.t('metaResolved'),
+			},
+			colorHex: color => getColorOption(color).hex,
+		});
+	}
+
+	/**
+	 * 导出失败（剪贴板被拒绝、文件夹路径是文件、文件名冲突等）时提示用户
+	 */
+	reportExportError(err: unknown) {
+		console.error('[hover-annotations] Failed to export annotations', err);
+		new Notice(this.t('noticeExportFailed', err instanceof Error ? err.message : String(err)));
+	}
+
+	async copyAnnotationExport(scope: ExportScope, folder: string, format: ExportFormat) {
+		const content = await this.buildAnnotationExport(scope, folder, format);
+		if (content === null) return;
+		await navigator.clipboard.writeText(content);
+		new Notice(this.t('noticeCopied'));
+	}
+
+	/**
+	 * 将导出内容写入库中的新文件（重名时追加序号），Markdown 导出完成后直接打开
+	 */
+	async saveAnnotationExport(scope: ExportScope, folder: string, format: ExportFormat) {
+		const content = await this.buildAnnotationExport(scope, folder, format);
+		if (content === null) return;
+
+		const scopeName = scope === 'file'
+			? this.app.workspace.getActiveFile()?.basename ?? ""
+			: scope === 'folder' && folder ? folder.split("/").pop() ?? folder : this.app.vault.getName();
+		const baseName = sanitizeFileName(`${this.t('exportTitle')} ${scopeName} ${moment().format("YYYY-MM-DD HHmm")}`);
+		const exportFolder = normalizePath(this.settings.exportFolder || "/");
+		if (exportFolder !== "/" && !this.app.vault.getAbstractFileByPath(exportFolder)) {
+			await this.app.vault.createFolder(exportFolder);
+		}
+
+		const extension = EXPORT_FILE_EXTENSIONS[format];
+		const prefix = exportFolder === "/" ? "" : `${exportFolder}/`;
+		let path = `${prefix}${baseName}.${extension}`;
+		for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+			path = `${prefix}${baseName} ${n}.${extension}`;
+		}
+
+		const file = await this.app.vault.create(path, content);
+		new Notice(this.t('noticeExported', file.path));
+		if (format === 'markdown') await this.app.workspace.getLeaf('tab').openFile(file);
+	}
 }
 
 class AnnotationSettingTab extends PluginSettingTab {
@@ -997,6 +3093,13 @@ class AnnotationSettingTab extends PluginSettingTab {
 		this.plugin = plugin;
 	}
 
+	private async updatePalette(colors: PaletteColor[]) {
+		this.plugin.settings.colors = colors;
+		this.plugin.applyPalette();
+		await this.plugin.saveSettings();
+		this.plugin.refreshAnnotationViews();
+	}
+
 	display(): void {
 		const { containerEl } = this;
 		containerEl.empty();
@@ -1027,8 +3130,8 @@ class AnnotationSettingTab extends PluginSettingTab {
 			.setName(t('settingDefaultColorName'))
 			.setDesc(t('settingDefaultColorDesc'))
 			.addDropdown(dropdown => {
-				COLOR_OPTIONS.forEach(opt => {
-					dropdown.addOption(opt.value, t(opt.labelKey));
+				this.plugin.getColorChoices().forEach(opt => {
+					dropdown.addOption(opt.value, opt.label);
 				});
 				dropdown.setValue(this.plugin.settings.defaultColor)
 					.onChange(async (value) => {
@@ -1038,6 +3141,27 @@ class AnnotationSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName(t('settingMetadataName'))
+			.setDesc(t('settingMetadataDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.recordMetadata)
+				.onChange(async (value) => {
+					this.plugin.settings.recordMetadata = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingAuthorName'))
+			.setDesc(t('settingAuthorDesc'))
+			.addText(text => text
+				.setPlaceholder(t('settingAuthorPlaceholder'))
+				.setValue(this.plugin.settings.authorName)
+				.onChange(async (value) => {
+					this.plugin.settings.authorName = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName(t('settingHideDefaultName'))
 			.setDesc(t('settingHideDefaultDesc'))
@@ -1049,6 +3173,28 @@ class AnnotationSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName(t('settingDimResolvedName'))
+			.setDesc(t('settingDimResolvedDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.dimResolved)
+				.onChange(async (value) => {
+					this.plugin.settings.dimResolved = value;
+					this.plugin.updateStyles();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingHideResolvedName'))
+			.setDesc(t('settingHideResolvedDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.hideResolved)
+				.onChange(async (value) => {
+					this.plugin.settings.hideResolved = value;
+					this.plugin.updateStyles();
+					await this.plugin.saveSettings();
+				}));
+
 		// 2. 外观样式 (Appearance)
 		new Setting(containerEl).setName(t('settingsAppearance')).setHeading();
 
@@ -1127,6 +3273,80 @@ class AnnotationSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// 颜色方案 (Palette)
+		new Setting(containerEl)
+			.setName(t('settingPaletteHeading'))
+			.setDesc(t('settingPaletteDesc'))
+			.setHeading();
+
+		const palette = this.plugin.settings.colors;
+		palette.forEach((color, index) => {
+			const colorSetting = new Setting(containerEl)
+				.setName(this.plugin.getColorLabel(color))
+				.setDesc(color.value ? t('settingPaletteClass', color.value) : t('settingPaletteDefaultClass'))
+				.addText(text => text
+					.setPlaceholder(this.plugin.getColorLabel({ ...color, label: "" }))
+					.setValue(color.label)
+					.onChange(async (value) => {
+						color.label = value.trim();
+						colorSetting.setName(this.plugin.getColorLabel(color));
+						await this.updatePalette(palette);
+					}))
+				.addColorPicker(picker => picker
+					.setValue(color.hex)
+					.onChange(async (value) => {
+						color.hex = value;
+						await this.updatePalette(palette);
+					}))
+				.addExtraButton(button => button
+					.setIcon("arrow-up")
+					.setTooltip(t('settingPaletteMoveUp'))
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						await this.updatePalette(moveColor(palette, index, -1));
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon("arrow-down")
+					.setTooltip(t('settingPaletteMoveDown'))
+					.setDisabled(index === palette.length - 1)
+					.onClick(async () => {
+						await this.updatePalette(moveColor(palette, index, 1));
+						this.display();
+					}));
+
+			// 默认颜色对应不带 class 的批注，不能删除
+			if (color.value !== DEFAULT_COLOR) {
+				colorSetting.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip(t('settingPaletteDelete'))
+					.onClick(async () => {
+						await this.updatePalette(palette.filter(item => item !== color));
+						this.display();
+					}));
+			}
+		});
+
+		let newColorName = "";
+		let newColorHex = "#ff9900";
+		new Setting(containerEl)
+			.setName(t('settingPaletteAddName'))
+			.setDesc(t('settingPaletteAddDesc'))
+			.addText(text => text
+				.setPlaceholder(t('settingPaletteAddPlaceholder'))
+				.onChange(value => { newColorName = value; }))
+			.addColorPicker(picker => picker
+				.setValue(newColorHex)
+				.onChange(value => { newColorHex = value; }))
+			.addButton(button => button
+				.setButtonText(t('settingPaletteAddButton'))
+				.setCta()
+				.onClick(async () => {
+					const label = newColorName.trim() || t('colorNew');
+					await this.updatePalette([...palette, createPaletteColor(palette, label, newColorHex)]);
+					this.display();
+				}));
+
 		// 3. 交互体验 (Interaction)
 		new Setting(containerEl).setName(t('settingsInteraction')).setHeading();
 
@@ -1146,6 +3366,34 @@ class AnnotationSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		new Setting(containerEl)
+			.setName(t('settingShowDelayName'))
+			.setDesc(t('settingShowDelayDesc'))
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.tooltipShowDelay))
+				.setValue(this.plugin.settings.tooltipShowDelay.toString())
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (!isNaN(num) && num >= 0) {
+						this.plugin.settings.tooltipShowDelay = num;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingHideDelayName'))
+			.setDesc(t('settingHideDelayDesc'))
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.tooltipHideDelay))
+				.setValue(this.plugin.settings.tooltipHideDelay.toString())
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (!isNaN(num) && num >= 0) {
+						this.plugin.settings.tooltipHideDelay = num;
+						await this.plugin.saveSettings();
+					}
+				}));
+
 		new Setting(containerEl)
 			.setName(t('settingSubmitShortcutName'))
 			.setDesc(t('settingSubmitShortcutDesc'))
@@ -1230,6 +3478,29 @@ class AnnotationSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName(t('settingNavigationColorName'))
+			.setDesc(t('settingNavigationColorDesc'))
+			.addDropdown(dropdown => {
+				dropdown.addOption(BROWSER_ALL_COLORS, t('browserAllColors'));
+				this.plugin.getColorChoices().forEach(choice => dropdown.addOption(choice.value, choice.label));
+				dropdown.setValue(this.plugin.settings.navigationColor ?? BROWSER_ALL_COLORS)
+					.onChange(async (value) => {
+						this.plugin.settings.navigationColor = value === BROWSER_ALL_COLORS ? null : value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t('settingNavigationTooltipName'))
+			.setDesc(t('settingNavigationTooltipDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.navigationShowTooltip)
+				.onChange(async (value) => {
+					this.plugin.settings.navigationShowTooltip = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// 4. 高级与维护 (Advanced)
 		new Setting(containerEl).setName(t('settingsAdvanced')).setHeading();
 
@@ -1244,6 +3515,16 @@ class AnnotationSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName(t('settingUpdateLinksName'))
+			.setDesc(t('settingUpdateLinksDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.updateLinksOnRename)
+				.onChange(async (value) => {
+					this.plugin.settings.updateLinksOnRename = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName(t('settingFixDataName'))
 			.setDesc(t('settingFixDataDesc'))
@@ -1254,29 +3535,108 @@ class AnnotationSettingTab extends PluginSettingTab {
 					// @ts-ignore: private access
 					await this.plugin.normalizeAllMarkdownFiles();
 				}));
+
+		new Setting(containerEl)
+			.setName(t('settingImportName'))
+			.setDesc(t('settingImportDesc'))
+			.addButton(button => button
+				.setButtonText(t('settingImportButton'))
+				.onClick(async () => {
+					await this.plugin.importAllMarkdownFiles();
+				}));
+
+		IMPORT_SOURCES.forEach(source => {
+			new Setting(containerEl)
+				.setName(t(IMPORT_SOURCE_LABEL_KEYS[source]))
+				.setClass('ob-annotation-import-source')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.importSources.includes(source))
+					.onChange(async (value) => {
+						const enabled = new Set(this.plugin.settings.importSources);
+						if (value) enabled.add(source);
+						else enabled.delete(source);
+						this.plugin.settings.importSources = IMPORT_SOURCES.filter(item => enabled.has(item));
+						await this.plugin.saveSettings();
+					}));
+		});
 		
 		new Setting(containerEl)
 			.setName(t('settingExportName'))
 			.setDesc(t('settingExportDesc'))
 			.addButton(button => button
 				.setButtonText(t('settingExportButton'))
-				.onClick(async () => {
-					const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-					if (view) {
-						const text = view.editor.getValue();
-						const regex = /<span class="ob-comment(?:\s+[\w-]+)?" data-note="([\s\S]*?)">([\s\S]*?)<\/span>/g;
-						let match;
-						let output = this.plugin.t('exportHeading');
-						while ((match = regex.exec(text)) !== null) {
-							const note = decodeDataNote(match[1]);
-							const original = match[2];
-							output += `- **${this.plugin.t('exportOriginal')}**: "${original}"\n  - **${this.plugin.t('exportAnnotation')}**: ${note}\n`;
-						}
-						await navigator.clipboard.writeText(output);
-						new Notice(this.plugin.t('noticeCopied'));
-					} else {
-						new Notice(this.plugin.t('noticeOpenDoc'));
-					}
+				.onClick(() => {
+					this.plugin.openExportModal();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingExportFolderName'))
+			.setDesc(t('settingExportFolderDesc'))
+			.addText(text => text
+				.setPlaceholder("Exports")
+				.setValue(this.plugin.settings.exportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.exportFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingExtractFolderName'))
+			.setDesc(t('settingExtractFolderDesc'))
+			.addText(text => text
+				.setPlaceholder("Notes")
+				.setValue(this.plugin.settings.extractFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.extractFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingExtractFileNameName'))
+			.setDesc(t('settingExtractFileNameDesc'))
+			.addText(text => text
+				.setPlaceholder(DEFAULT_EXTRACT_FILE_NAME)
+				.setValue(this.plugin.settings.extractFileName)
+				.onChange(async (value) => {
+					this.plugin.settings.extractFileName = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingExtractTemplateName'))
+			.setDesc(t('settingExtractTemplateDesc'))
+			.setClass('ob-annotation-extract-template')
+			.addTextArea(text => text
+				.setPlaceholder(DEFAULT_EXTRACT_TEMPLATE)
+				.setValue(this.plugin.settings.extractTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.extractTemplate = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingExtractLinkName'))
+			.setDesc(t('settingExtractLinkDesc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('append', t('settingExtractLinkAppend'))
+				.addOption('replace', t('settingExtractLinkReplace'))
+				.setValue(this.plugin.settings.extractLinkMode)
+				.onChange(async (value) => {
+					this.plugin.settings.extractLinkMode = value as ExtractLinkMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settingPrintNotesName'))
+			.setDesc(t('settingPrintNotesDesc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('endnotes', t('settingPrintNotesEndnotes'))
+				.addOption('footnotes', t('settingPrintNotesFootnotes'))
+				.addOption('hide', t('settingPrintNotesHide'))
+				.setValue(this.plugin.settings.printNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.printNotes = value as PrintNoteMode;
+					await this.plugin.saveSettings();
 				}));
 	}
 }
@@ -1290,19 +3650,30 @@ class AnnotationModal extends Modal {
 	submitShortcut: ModalShortcut;
 	newlineShortcut: ModalShortcut;
 	colorLabelEl: HTMLElement | null = null; // 显示当前选中的颜色名称
-	onSubmit: (result: string, color: AnnotationColor) => void;
+	onSubmit: (result: string, color: AnnotationColor, reply: string) => void;
 	locale: Locale;
 	translate: TranslateFn;
+	colors: ColorChoice[];
+	thread: AnnotationThreadOptions | null;
+	replyInputEl: HTMLTextAreaElement | null = null;
+	preview: AnnotationPreviewOptions | null;
+	private threadRenderComponent: Component | null = null;
+	private previewRenderComponent: Component | null = null;
+	private previewRenderId = 0;
+	private suggests: AnnotationInputSuggest[] = [];
 
 	constructor(
 		app: App,
 		defaultValue: string,
 		defaultColor: AnnotationColor,
-		onSubmit: (result: string, color: AnnotationColor) => void,
+		onSubmit: (result: string, color: AnnotationColor, reply: string) => void,
 		locale: Locale,
 		translate: TranslateFn,
 		submitShortcut: ModalShortcut,
-		newlineShortcut: ModalShortcut
+		newlineShortcut: ModalShortcut,
+		colors: ColorChoice[],
+		thread: AnnotationThreadOptions | null = null,
+		preview: AnnotationPreviewOptions | null = null
 	) {
 		super(app);
 		this.defaultValue = defaultValue;
@@ -1313,6 +3684,9 @@ class AnnotationModal extends Modal {
 		this.translate = translate;
 		this.submitShortcut = submitShortcut;
 		this.newlineShortcut = newlineShortcut;
+		this.colors = colors;
+		this.thread = thread;
+		this.preview = preview;
 		this.modalEl.addClass("ob-annotation-modal-container");
 	}
 
@@ -1325,10 +3699,13 @@ class AnnotationModal extends Modal {
 			text: formatModalKeyHint(this.translate, this.submitShortcut, this.newlineShortcut)
 		});
 
-		const inputEl = contentEl.createEl("textarea", {
+		const editorEl = contentEl.createDiv({ cls: "annotation-editor" });
+		const inputEl = editorEl.createEl("textarea", {
 			cls: "annotation-input",
 			attr: { rows: "3" }
 		});
+		if (this.preview) this.setupPreview(headerRow, editorEl, inputEl);
+		this.suggests.push(new AnnotationInputSuggest(this.app, inputEl));
 
 		// Auto-resize logic
 		const adjustHeight = () => {
@@ -1342,11 +3719,17 @@ class AnnotationModal extends Modal {
 		// 稍微延迟聚焦，确保 UI 渲染完成
 		setTimeout(() => {
 			adjustHeight(); // Initial adjustment
+			if (this.thread?.focusReply && this.replyInputEl) {
+				this.replyInputEl.focus();
+				return;
+			}
 			inputEl.focus();
 			// 如果是编辑模式，全选文本方便修改
 			if (this.defaultValue) inputEl.select();
 		}, 0);
 
+		if (this.thread) this.renderThread(contentEl, inputEl);
+
 		// --- 颜色选择区域 ---
 		const colorWrapper = contentEl.createDiv({ cls: "annotation-color-field" });
 
@@ -1365,8 +3748,8 @@ class AnnotationModal extends Modal {
 		const btnContainer = colorRow.createDiv({ cls: "modal-button-container inline" });
 
 		// 渲染颜色选项圆点
-		COLOR_OPTIONS.forEach(opt => {
-			const colorLabel = this.translate(opt.labelKey);
+		this.colors.forEach(opt => {
+			const colorLabel = opt.label;
 			const colorItem = colorContainer.createDiv({ 
 				cls: "annotation-color-item",
 				attr: { "aria-label": colorLabel, "title": colorLabel, "tabindex": "0" } // 支持键盘 Tab 聚焦
@@ -1411,6 +3794,130 @@ class AnnotationModal extends Modal {
 		});
 	}
 
+	/**
+	 * Markdown 预览：桌面端在标题栏放置开关，开启后与输入框并排并随输入刷新；
+	 * 移动端空间有限，在输入框上方以“编辑 / 预览”标签页切换
+	 */
+	private setupPreview(headerRow: HTMLElement, editorEl: HTMLElement, inputEl: HTMLTextAreaElement) {
+		const previewEl = editorEl.createDiv({ cls: "annotation-preview ob-annotation-note-content markdown-rendered" });
+		const refresh = debounce(() => this.renderPreview(inputEl.value, previewEl), 200, true);
+		const isVisible = () => editorEl.hasClass("is-split") || editorEl.hasClass("is-previewing");
+		inputEl.addEventListener("input", () => {
+			if (isVisible()) refresh();
+		});
+
+		if (Platform.isMobile) {
+			const tabsEl = createDiv({ cls: "annotation-editor-tabs" });
+			editorEl.before(tabsEl);
+			const writeTab = tabsEl.createEl("button", { text: this.translate('modalTabWrite'), cls: "is-active" });
+			const previewTab = tabsEl.createEl("button", { text: this.translate('modalTabPreview') });
+			const selectTab = (previewing: boolean) => {
+				writeTab.toggleClass("is-active", !previewing);
+				previewTab.toggleClass("is-active", previewing);
+				editorEl.toggleClass("is-previewing", previewing);
+				if (previewing) this.renderPreview(inputEl.value, previewEl);
+				else inputEl.focus();
+			};
+			writeTab.addEventListener("click", () => selectTab(false));
+			previewTab.addEventListener("click", () => selectTab(true));
+			return;
+		}
+
+		const preview = this.preview;
+		if (!preview) return;
+		const toggleButton = headerRow.createEl("button", { cls: "clickable-icon annotation-preview-toggle", attr: { "aria-label": this.translate('modalPreviewToggle') } });
+		setIcon(toggleButton, "eye");
+		const applySplit = (enabled: boolean) => {
+			toggleButton.toggleClass("is-active", enabled);
+			toggleButton.setAttribute("aria-pressed", String(enabled));
+			editorEl.toggleClass("is-split", enabled);
+			this.modalEl.toggleClass("is-split", enabled);
+			if (enabled) this.renderPreview(inputEl.value, previewEl);
+		};
+		toggleButton.addEventListener("click", () => {
+			preview.enabled = !preview.enabled;
+			preview.onToggle(preview.enabled);
+			applySplit(preview.enabled);
+		});
+		applySplit(preview.enabled);
+	}
+
+	/**
+	 * 与悬浮框相同，以当前文件为 sourcePath 渲染，使相对链接与嵌入正确解析。
+	 * 先渲染到游离元素，只有最新一次渲染完成后才替换预览内容，避免重叠渲染叠加出重复内容
+	 */
+	private renderPreview(note: string, previewEl: HTMLElement) {
+		const renderId = ++this.previewRenderId;
+		this.previewRenderComponent?.unload();
+		this.previewRenderComponent = null;
+		if (!note.trim()) {
+			previewEl.empty();
+			previewEl.createDiv({ cls: "annotation-preview-empty", text: this.translate('modalPreviewEmpty') });
+			return;
+		}
+		const component = new Component();
+		component.load();
+		this.previewRenderComponent = component;
+		const sourcePath = this.app.workspace.getActiveFile()?.path ?? "";
+		const renderedEl = createDiv();
+		MarkdownRenderer.render(this.app, note, renderedEl, sourcePath, component)
+			.then(() => {
+				if (renderId !== this.previewRenderId) return;
+				previewEl.empty();
+				while (renderedEl.firstChild) previewEl.appendChild(renderedEl.firstChild);
+			})
+			.catch((err) => {
+				console.error('[hover-annotations] Failed to render preview', err);
+			});
+	}
+
+	/**
+	 * 讨论串：按时间顺序显示已有回复，下方为回复输入框（随批注一起提交）
+	 */
+	private renderThread(contentEl: HTMLElement, noteInputEl: HTMLTextAreaElement) {
+		const replies = this.thread?.replies ?? [];
+		const threadEl = contentEl.createDiv({ cls: "annotation-thread" });
+		threadEl.createDiv({ cls: "setting-item-name annotation-thread-title", text: this.translate('modalReplies', replies.length) });
+
+		const component = new Component();
+		component.load();
+		this.threadRenderComponent = component;
+		const sourcePath = this.app.workspace.getActiveFile()?.path ?? "";
+		replies.forEach(reply => {
+			const replyEl = threadEl.createDiv({ cls: "annotation-thread-reply" });
+			const meta = formatReplyMeta(reply, this.translate);
+			if (meta) replyEl.createDiv({ cls: "annotation-thread-reply-meta", text: meta });
+			const bodyEl = replyEl.createDiv({ cls: "annotation-thread-reply-body" });
+			void MarkdownRenderer.render(this.app, reply.text, bodyEl, sourcePath, component);
+		});
+
+		const replyInputEl = threadEl.createEl("textarea", {
+			cls: "annotation-input annotation-reply-input",
+			attr: { rows: "2", placeholder: this.translate('modalReplyPlaceholder') }
+		});
+		this.suggests.push(new AnnotationInputSuggest(this.app, replyInputEl));
+		const adjustHeight = () => {
+			replyInputEl.setCssProps({ height: 'auto' });
+			replyInputEl.setCssProps({ height: replyInputEl.scrollHeight + 'px' });
+		};
+		replyInputEl.addEventListener('input', adjustHeight);
+		replyInputEl.addEventListener("keydown", (e) => {
+			if (e.key !== "Enter") return;
+			if (isShortcutEvent(e, this.submitShortcut)) {
+				e.preventDefault();
+				this.submit(noteInputEl.value);
+				return;
+			}
+			if (isShortcutEvent(e, this.newlineShortcut)) {
+				e.preventDefault();
+				this.insertNewline(replyInputEl, adjustHeight);
+				return;
+			}
+			e.preventDefault();
+		});
+		this.replyInputEl = replyInputEl;
+	}
+
 	updateColorLabel(label: string) {
 		if (this.colorLabelEl) {
 			this.colorLabelEl.setText(`${this.translate('modalColorCurrent')}${label}`);
@@ -1443,16 +3950,190 @@ class AnnotationModal extends Modal {
 	}
 
 	submit(value: string) {
-		this.onSubmit(value, this.selectedColor);
+		this.onSubmit(value, this.selectedColor, this.replyInputEl?.value.trim() ?? "");
 		this.close();
 	}
 
 	onClose() {
 		const { contentEl } = this;
+		this.threadRenderComponent?.unload();
+		this.threadRenderComponent = null;
+		this.previewRenderId++;
+		this.previewRenderComponent?.unload();
+		this.previewRenderComponent = null;
+		this.suggests.forEach(suggest => suggest.close());
+		this.suggests = [];
 		contentEl.empty();
 	}
 }
 
+// --- 批注输入框中的链接 / 标签补全：与编辑器一致，提示库中的文件、标题与标签 ---
+type SuggestItem = { value: string; title: string; detail: string };
+
+const SUGGEST_LIMIT = 20;
+
+class AnnotationInputSuggest {
+	app: App;
+	inputEl: HTMLTextAreaElement;
+	private suggestEl: HTMLElement | null = null;
+	private items: SuggestItem[] = [];
+	private selected = 0;
+	private trigger: SuggestTrigger | null = null;
+	private tags: string[] | null = null;
+
+	constructor(app: App, inputEl: HTMLTextAreaElement) {
+		this.app = app;
+		this.inputEl = inputEl;
+
+		// 需先于弹窗自身的 keydown（Enter 提交 / 换行）处理
+		inputEl.addEventListener('keydown', (evt: KeyboardEvent) => this.handleKeydown(evt));
+		inputEl.addEventListener('input', () => this.update());
+		inputEl.addEventListener('click', () => this.update());
+		inputEl.addEventListener('keyup', (evt: KeyboardEvent) => {
+			if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(evt.key)) this.update();
+		});
+		inputEl.addEventListener('blur', () => this.close());
+	}
+
+	private get sourcePath(): string {
+		return this.app.workspace.getActiveFile()?.path ?? "";
+	}
+
+	private update() {
+		const cursor = this.inputEl.selectionStart;
+		const trigger = cursor === this.inputEl.selectionEnd ? findSuggestTrigger(this.inputEl.value, cursor) : null;
+		const items = trigger ? this.getSuggestions(trigger) : [];
+		if (!trigger || items.length === 0) {
+			this.close();
+			return;
+		}
+		this.trigger = trigger;
+		this.items = items;
+		this.selected = 0;
+		this.render();
+	}
+
+	private getSuggestions(trigger: SuggestTrigger): SuggestItem[] {
+		const { metadataCache, vault } = this.app;
+		if (trigger.type === "tag") {
+			const tags = rankSuggestions(this.getVaultTags(), trigger.query, tag => tag, SUGGEST_LIMIT);
+			return tags.map(tag => ({ value: tag, title: `#${tag}`, detail: "" }));
+		}
+
+		if (trigger.heading === null) {
+			const files = rankSuggestions(vault.getFiles(), trigger.path, file => file.path, SUGGEST_LIMIT);
+			return files.map(file => ({
+				value: metadataCache.fileToLinktext(file, this.sourcePath, true),
+				title: file.extension === "md" ? file.basename : file.name,
+				detail: file.parent && !file.parent.isRoot() ? file.parent.path : ""
+			}));
+		}
+
+		// [[#标题 指向当前文件
+		const file = trigger.path ? metadataCache.getFirstLinkpathDest(trigger.path, this.sourcePath) : vault.getFileByPath(this.sourcePath);
+		const headings = file ? metadataCache.getFileCache(file)?.headings ?? [] : [];
+		return rankSuggestions(headings, trigger.heading, heading => heading.heading, SUGGEST_LIMIT).map(heading => ({
+			value: `${trigger.path}#${heading.heading}`,
+			title: heading.heading,
+			detail: `H${heading.level}`
+		}));
+	}
+
+	/**
+	 * 库中所有标签（不含 #），在首次需要时收集
+	 */
+	private getVaultTags(): string[] {
+		if (!this.tags) {
+			const tags = new Set<string>();
+			this.app.vault.getMarkdownFiles().forEach(file => {
+				const cache = this.app.metadataCache.getFileCache(file);
+				(cache ? getAllTags(cache) ?? [] : []).forEach(tag => tags.add(tag.replace(/^#/, "")));
+			});
+			this.tags = Array.from(tags).sort((a, b) => a.localeCompare(b));
+		}
+		return this.tags;
+	}
+
+	private render() {
+		const doc = this.inputEl.doc;
+		if (!this.suggestEl) {
+			this.suggestEl = doc.body.createDiv({ cls: 'suggestion-container ob-annotation-suggest' });
+			// 保持输入框焦点
+			this.suggestEl.addEventListener('mousedown', evt => evt.preventDefault());
+		}
+		const suggestEl = this.suggestEl;
+		suggestEl.empty();
+		const listEl = suggestEl.createDiv({ cls: 'suggestion' });
+		this.items.forEach((item, i) => {
+			const itemEl = listEl.createDiv({ cls: 'suggestion-item' });
+			itemEl.toggleClass('is-selected', i === this.selected);
+			itemEl.createDiv({ cls: 'suggestion-title', text: item.title });
+			if (item.detail) itemEl.createDiv({ cls: 'suggestion-note', text: item.detail });
+			itemEl.addEventListener('mousemove', () => this.select(i));
+			itemEl.addEventListener('click', () => this.choose(i));
+		});
+
+		// 默认显示在输入框下方，空间不足时放到上方
+		const rect = this.inputEl.getBoundingClientRect();
+		const win = this.inputEl.win;
+		suggestEl.style.left = `${rect.left}px`;
+		suggestEl.style.width = `${rect.width}px`;
+		const below = win.innerHeight - rect.bottom;
+		if (below >= suggestEl.offsetHeight || below >= rect.top) {
+			suggestEl.style.top = `${rect.bottom + 4}px`;
+			suggestEl.style.bottom = '';
+		} else {
+			suggestEl.style.top = '';
+			suggestEl.style.bottom = `${win.innerHeight - rect.top + 4}px`;
+		}
+	}
+
+	private select(index: number) {
+		if (!this.suggestEl || index === this.selected) return;
+		const itemEls = Array.from(this.suggestEl.querySelectorAll('.suggestion-item'));
+		itemEls[this.selected]?.removeClass('is-selected');
+		this.selected = index;
+		itemEls[index]?.addClass('is-selected');
+		itemEls[index]?.scrollIntoView({ block: 'nearest' });
+	}
+
+	private choose(index: number) {
+		const item = this.items[index];
+		const trigger = this.trigger;
+		this.close();
+		if (!item || !trigger) return;
+
+		const edit = applySuggestion(this.inputEl.value, trigger, item.value);
+		this.inputEl.value = edit.text;
+		this.inputEl.setSelectionRange(edit.cursor, edit.cursor);
+		// 通知弹窗调整高度、刷新预览
+		this.inputEl.dispatchEvent(new Event('input'));
+	}
+
+	private handleKeydown(evt: KeyboardEvent) {
+		if (!this.suggestEl) return;
+		const count = this.items.length;
+		let handled = true;
+		if (evt.key === 'ArrowDown') this.select((this.selected + 1) % count);
+		else if (evt.key === 'ArrowUp') this.select((this.selected - 1 + count) % count);
+		else if ((evt.key === 'Enter' || evt.key === 'Tab') && !evt.shiftKey && !evt.ctrlKey && !evt.metaKey && !evt.altKey) this.choose(this.selected);
+		else if (evt.key === 'Escape') this.close();
+		else handled = false;
+
+		if (handled) {
+			evt.preventDefault();
+			evt.stopImmediatePropagation();
+		}
+	}
+
+	close() {
+		this.suggestEl?.remove();
+		this.suggestEl = null;
+		this.trigger = null;
+		this.items = [];
+	}
+}
+
 // --- 批量修复确认弹窗 ---
 class BatchFixConfirmModal extends Modal {
 	filesToFix: TFile[];
@@ -1498,6 +4179,574 @@ class BatchFixConfirmModal extends Modal {
 	}
 }
 
+// --- 固定的批注卡片：可同时打开多张，可拖动、关闭，并可跳回对应批注 ---
+class AnnotationCard implements HoverParent {
+	plugin: AnnotationPlugin;
+	location: RenderedAnnotationLocation | null;
+	cardEl: HTMLElement;
+	hoverPopover: HoverPopover | null = null;
+	onClosed: (() => void) | null = null;
+	private component = new Component();
+
+	constructor(plugin: AnnotationPlugin, layers: AnnotationLayer[], sourcePath: string, doc: Document, position: { left: number; top: number }) {
+		this.plugin = plugin;
+		// 固定时记录各层位置；原位编辑与定位按钮共用，保存时按 ID 或内容重新定位
+		const locations = layers.map(layer => plugin.getAnnotationSourceLocation(layer.el));
+		const location = locations[0];
+		this.location = location;
+		this.cardEl = doc.body.createDiv({ cls: 'ob-annotation-card' });
+
+		const headerEl = this.cardEl.createDiv({ cls: 'ob-annotation-card-header' });
+		const title = (layers[0].el.textContent ?? "").trim();
+		headerEl.createDiv({ cls: 'ob-annotation-card-title', text: title.length > 60 ? `${title.slice(0, 60)}…` : title });
+		if (location) {
+			plugin.createActionButton(headerEl, 'locate-fixed', plugin.t('cardReveal'), () => {
+				void plugin.revealAnnotationAt(location);
+			});
+		}
+		plugin.createActionButton(headerEl, 'x', plugin.t('cardClose'), () => this.close());
+
+		const bodyEl = this.cardEl.createDiv({ cls: ['ob-annotation-card-body', 'ob-annotation-note-content'] });
+		this.component.load();
+		const sections = plugin.createLayerSections(layers, { editComponent: () => this.component, locations });
+		sections.forEach(section => bodyEl.appendChild(section.el));
+		plugin.renderLayerSections(sections, sourcePath, this.component).catch((err) => {
+			console.error('[hover-annotations] Failed to render card markdown', err);
+		});
+		plugin.handleInternalLinks(bodyEl, this, () => sourcePath);
+
+		this.moveTo(position.left, position.top);
+		this.enableDragging(headerEl);
+	}
+
+	/**
+	 * 移动卡片，并保证标题栏留在窗口内
+	 */
+	moveTo(left: number, top: number) {
+		const win = this.cardEl.win;
+		const maxLeft = Math.max(win.innerWidth - this.cardEl.offsetWidth - VIEWPORT_MARGIN, VIEWPORT_MARGIN);
+		const maxTop = Math.max(win.innerHeight - 40, VIEWPORT_MARGIN);
+		this.cardEl.style.left = `${Math.min(Math.max(left, VIEWPORT_MARGIN), maxLeft)}px`;
+		this.cardEl.style.top = `${Math.min(Math.max(top, VIEWPORT_MARGIN), maxTop)}px`;
+	}
+
+	private enableDragging(handleEl: HTMLElement) {
+		handleEl.addEventListener('pointerdown', (evt: PointerEvent) => {
+			if (evt.button !== 0 || (evt.target as HTMLElement).closest('button')) return;
+			evt.preventDefault();
+
+			const rect = this.cardEl.getBoundingClientRect();
+			const offsetX = evt.clientX - rect.left;
+			const offsetY = evt.clientY - rect.top;
+			const onMove = (moveEvt: PointerEvent) => this.moveTo(moveEvt.clientX - offsetX, moveEvt.clientY - offsetY);
+			const onUp = () => {
+				handleEl.removeEventListener('pointermove', onMove);
+				handleEl.removeEventListener('pointerup', onUp);
+				this.cardEl.removeClass('is-dragging');
+			};
+			handleEl.setPointerCapture(evt.pointerId);
+			handleEl.addEventListener('pointermove', onMove);
+			handleEl.addEventListener('pointerup', onUp);
+			this.cardEl.addClass('is-dragging');
+		});
+	}
+
+	close() {
+		this.hoverPopover?.unload();
+		this.component.unload();
+		this.cardEl.remove();
+		this.onClosed?.();
+	}
+}
+
+// --- 导入预览弹窗：列出每个文件中将被转换的写法 ---
+const IMPORT_PREVIEW_LIMIT = 20;
+
+class ImportPreviewModal extends Modal {
+	previews: ImportPreview[];
+	onConfirm: () => void;
+	translate: TranslateFn;
+
+	constructor(app: App, previews: ImportPreview[], onConfirm: () => void, translate: TranslateFn) {
+		super(app);
+		this.previews = previews;
+		this.onConfirm = onConfirm;
+		this.translate = translate;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const total = this.previews.reduce((sum, preview) => sum + preview.conversions.length, 0);
+		contentEl.createEl("h2", { text: this.translate('importTitle') });
+		contentEl.createEl("p", { text: this.translate('importSummary', total) });
+		contentEl.createEl("p", { text: this.translate('importWarning'), cls: "mod-warning" });
+
+		const listEl = contentEl.createDiv({ cls: "ob-annotation-import-preview" });
+		this.previews.forEach(preview => {
+			listEl.createDiv({ cls: "ob-annotation-import-file", text: `${preview.path} (${preview.conversions.length})` });
+			// 每个文件只预览前若干处，避免弹窗过长
+			preview.conversions.slice(0, IMPORT_PREVIEW_LIMIT).forEach(conversion => {
+				const itemEl = listEl.createDiv({ cls: "ob-annotation-import-item" });
+				itemEl.createDiv({
+					cls: "ob-annotation-import-meta",
+					text: `${this.translate('importLine', conversion.line + 1)} · ${this.translate(IMPORT_SOURCE_LABEL_KEYS[conversion.source])}`
+				});
+				itemEl.createEl("code", { cls: "ob-annotation-import-before", text: conversion.original });
+				itemEl.createEl("code", { cls: "ob-annotation-import-after", text: conversion.replacement });
+			});
+			if (preview.conversions.length > IMPORT_PREVIEW_LIMIT) {
+				listEl.createDiv({ cls: "ob-annotation-import-more", text: this.translate('importMore', preview.conversions.length - IMPORT_PREVIEW_LIMIT) });
+			}
+		});
+
+		const btnContainer = contentEl.createDiv({ cls: "modal-button-container", attr: { style: "display: flex; justify-content: flex-end; gap: 10px;" } });
+
+		const cancelBtn = btnContainer.createEl("button", { text: this.translate('batchCancel') });
+		cancelBtn.addEventListener("click", () => this.close());
+
+		const confirmBtn = btnContainer.createEl("button", { text: this.translate('importConfirm', this.previews.length), cls: "mod-cta" });
+		confirmBtn.addEventListener("click", () => {
+			this.close();
+			this.onConfirm();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// --- 导出弹窗：选择范围与格式 ---
+class ExportModal extends Modal {
+	plugin: AnnotationPlugin;
+	folder: string;
+
+	constructor(app: App, plugin: AnnotationPlugin, folder: string) {
+		super(app);
+		this.plugin = plugin;
+		this.folder = folder;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const t = this.plugin.t.bind(this.plugin);
+		const settings = this.plugin.settings;
+		contentEl.createEl("h2", { text: t('exportModalTitle') });
+
+		let folderSetting: Setting | null = null;
+		const syncFolderVisibility = () => {
+			folderSetting?.settingEl.toggle(settings.exportScope === 'folder');
+		};
+
+		new Setting(contentEl)
+			.setName(t('exportScopeName'))
+			.addDropdown(dropdown => {
+				dropdown.addOption('file', t('exportScopeFile'));
+				dropdown.addOption('folder', t('exportScopeFolder'));
+				dropdown.addOption('vault', t('exportScopeVault'));
+				dropdown.setValue(settings.exportScope)
+					.onChange(async (value) => {
+						settings.exportScope = value as ExportScope;
+						syncFolderVisibility();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		folderSetting = new Setting(contentEl)
+			.setName(t('exportFolderName'))
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "/");
+				this.app.vault.getAllLoadedFiles()
+					.filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+					.map(folder => folder.path)
+					.sort((a, b) => a.localeCompare(b))
+					.forEach(path => dropdown.addOption(path, path));
+				dropdown.setValue(this.folder)
+					.onChange(value => { this.folder = value; });
+			});
+		syncFolderVisibility();
+
+		new Setting(contentEl)
+			.setName(t('exportFormatName'))
+			.addDropdown(dropdown => {
+				dropdown.addOption('markdown', t('exportFormatMarkdown'));
+				dropdown.addOption('csv', t('exportFormatCsv'));
+				dropdown.addOption('json', t('exportFormatJson'));
+				dropdown.addOption('html', t('exportFormatHtml'));
+				dropdown.setValue(settings.exportFormat)
+					.onChange(async (value) => {
+						settings.exportFormat = value as ExportFormat;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(t('exportCopy'))
+				.onClick(() => {
+					this.close();
+					this.plugin.copyAnnotationExport(settings.exportScope, this.folder, settings.exportFormat).catch(err => this.plugin.reportExportError(err));
+				}))
+			.addButton(button => button
+				.setButtonText(t('exportSave'))
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.plugin.saveAnnotationExport(settings.exportScope, this.folder, settings.exportFormat).catch(err => this.plugin.reportExportError(err));
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * 从 target 开始向外收集所有批注元素（最内层在前）
+ */
+function getAnnotationElementStack(target: HTMLElement): HTMLElement[] {
+	const stack: HTMLElement[] = [];
+	let el = target.closest<HTMLElement>('.ob-comment');
+	while (el) {
+		if (el.hasAttribute('data-note')) stack.push(el);
+		el = el.parentElement?.closest<HTMLElement>('.ob-comment') ?? null;
+	}
+	return stack;
+}
+
+// --- 批注侧边栏：列出当前文件的所有批注 ---
+class AnnotationListView extends ItemView {
+	plugin: AnnotationPlugin;
+	private file: TFile | null = null;
+	private renderId = 0;
+	private requestRefresh = debounce(() => { void this.refresh(); }, LIST_REFRESH_DEBOUNCE_MS, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: AnnotationPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_ANNOTATION_LIST;
+	}
+
+	getDisplayText() {
+		return this.plugin.t('listViewTitle');
+	}
+
+	getIcon() {
+		return "highlighter";
+	}
+
+	async onOpen() {
+		this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+			// 点击面板本身不应清空列表，只在切换到 Markdown 视图时刷新
+			if (leaf?.view instanceof MarkdownView) this.requestRefresh();
+		}));
+		this.registerEvent(this.app.workspace.on('file-open', () => this.requestRefresh()));
+		this.registerEvent(this.app.workspace.on('editor-change', (editor, info) => {
+			if (info.file === this.file) this.requestRefresh();
+		}));
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (file === this.file) this.requestRefresh();
+		}));
+
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.requestRefresh.cancel();
+		this.contentEl.empty();
+	}
+
+	async refresh() {
+		const renderId = ++this.renderId;
+		const activeFile = this.app.workspace.getActiveFile();
+		const file = activeFile && activeFile.extension === 'md' ? activeFile : null;
+		const text = file ? await this.plugin.readMarkdownText(file) : "";
+		const entries = collectAnnotationsInText(text);
+		const issues = collectAnnotationIssuesInText(text);
+		if (renderId !== this.renderId) return;
+
+		this.file = file;
+		const t = this.plugin.t.bind(this.plugin);
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("ob-annotation-list-view");
+
+		if (!file) {
+			container.createDiv({ cls: "ob-annotation-list-empty", text: t('listNoFile') });
+			return;
+		}
+
+		const header = container.createDiv({ cls: "ob-annotation-list-header" });
+		header.createDiv({ cls: "ob-annotation-list-title", text: file.basename });
+		header.createDiv({ cls: "ob-annotation-list-count", text: t('listCount', entries.length) });
+
+		// 格式错误的批注标签：无法渲染，但可以点击跳转后手动修复
+		issues.forEach(issue => {
+			const issueEl = container.createDiv({
+				cls: "ob-annotation-list-item ob-annotation-list-issue",
+				text: t('listIssue', issue.line + 1) + t(ISSUE_REASON_KEYS[issue.reason]),
+				attr: { tabindex: "0" }
+			});
+			issueEl.addEventListener("click", () => { void this.plugin.revealAnnotation(file, issue); });
+		});
+
+		if (entries.length === 0) {
+			container.createDiv({ cls: "ob-annotation-list-empty", text: t('listEmpty') });
+			return;
+		}
+
+		const listEl = container.createDiv({ cls: "ob-annotation-list" });
+		entries.forEach(entry => {
+			renderAnnotationEntry(listEl, entry, t, () => { void this.plugin.revealAnnotation(file, entry); });
+		});
+	}
+}
+
+// --- 全库批注浏览器：按文件分组，支持颜色/文件夹/关键字筛选 ---
+class AnnotationBrowserView extends ItemView {
+	plugin: AnnotationPlugin;
+	private files: AnnotatedFile[] = [];
+	private filter: AnnotationFilter = { color: null, folder: "", query: "" };
+	private resultsEl: HTMLElement | null = null;
+	private requestRenderResults = debounce(() => this.renderResults(), LIST_REFRESH_DEBOUNCE_MS, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: AnnotationPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_ANNOTATION_BROWSER;
+	}
+
+	getDisplayText() {
+		return this.plugin.t('browserTitle');
+	}
+
+	getIcon() {
+		return "list-filter";
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	async onClose() {
+		this.requestRenderResults.cancel();
+		this.contentEl.empty();
+	}
+
+	render() {
+		this.files = this.plugin.annotationIndex.getAnnotatedFiles();
+		const scanning = !this.plugin.annotationIndexReady;
+		const t = this.plugin.t.bind(this.plugin);
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("ob-annotation-browser-view");
+
+		const toolbar = container.createDiv({ cls: "ob-annotation-browser-toolbar" });
+		const searchEl = toolbar.createEl("input", {
+			type: "search",
+			cls: "ob-annotation-browser-search",
+			attr: { placeholder: t('browserSearchPlaceholder') }
+		});
+		searchEl.value = this.filter.query;
+		searchEl.addEventListener("input", () => {
+			this.filter.query = searchEl.value;
+			this.requestRenderResults();
+		});
+
+		const colorSelect = toolbar.createEl("select", { cls: "dropdown" });
+		colorSelect.createEl("option", { value: BROWSER_ALL_COLORS, text: t('browserAllColors') });
+		this.plugin.getColorChoices().forEach(opt => {
+			colorSelect.createEl("option", { value: opt.value, text: opt.label });
+		});
+		colorSelect.value = this.filter.color ?? BROWSER_ALL_COLORS;
+		colorSelect.addEventListener("change", () => {
+			this.filter.color = colorSelect.value === BROWSER_ALL_COLORS ? null : colorSelect.value;
+			this.renderResults();
+		});
+
+		const folderSelect = toolbar.createEl("select", { cls: "dropdown" });
+		folderSelect.createEl("option", { value: "", text: t('browserAllFolders') });
+		listAnnotatedFolders(this.files).forEach(folder => {
+			folderSelect.createEl("option", { value: folder, text: folder });
+		});
+		folderSelect.value = this.filter.folder;
+		folderSelect.addEventListener("change", () => {
+			this.filter.folder = folderSelect.value;
+			this.renderResults();
+		});
+
+		const rescanBtn = toolbar.createEl("button", { text: t('browserRescan') });
+		rescanBtn.disabled = scanning;
+		rescanBtn.addEventListener("click", () => { void this.plugin.rebuildAnnotationIndex(); });
+
+		this.resultsEl = container.createDiv({ cls: "ob-annotation-browser-results" });
+		if (scanning) {
+			this.resultsEl.createDiv({ cls: "ob-annotation-list-empty", text: t('browserScanning') });
+			return;
+		}
+		this.renderResults();
+	}
+
+	private renderResults() {
+		const resultsEl = this.resultsEl;
+		if (!resultsEl) return;
+		const t = this.plugin.t.bind(this.plugin);
+		resultsEl.empty();
+
+		const groups = filterAnnotatedFiles(this.files, this.filter);
+		if (groups.length === 0) {
+			resultsEl.createDiv({ cls: "ob-annotation-list-empty", text: t('browserEmpty') });
+			return;
+		}
+
+		const total = groups.reduce((sum, group) => sum + group.entries.length, 0);
+		resultsEl.createDiv({
+			cls: "ob-annotation-list-count",
+			text: `${t('listCount', total)} ${t('browserFileCount', groups.length)}`
+		});
+
+		groups.forEach(group => renderAnnotationGroup(resultsEl, group, this.plugin));
+	}
+}
+
+// --- 批注反向链接：列出全库中批注内容链接到当前文件的批注 ---
+class AnnotationBacklinksView extends ItemView {
+	plugin: AnnotationPlugin;
+	private file: TFile | null = null;
+	requestRender = debounce(() => this.render(), LIST_REFRESH_DEBOUNCE_MS, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: AnnotationPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_ANNOTATION_BACKLINKS;
+	}
+
+	getDisplayText() {
+		return this.plugin.t('backlinksTitle');
+	}
+
+	getIcon() {
+		return "links-coming-in";
+	}
+
+	async onOpen() {
+		this.registerEvent(this.app.workspace.on('file-open', (file) => {
+			// 切换到面板自身等非文件视图时保留当前列表
+			if (file && file !== this.file) this.requestRender();
+		}));
+		this.render();
+	}
+
+	async onClose() {
+		this.requestRender.cancel();
+		this.contentEl.empty();
+	}
+
+	render() {
+		const t = this.plugin.t.bind(this.plugin);
+		const file = this.app.workspace.getActiveFile() ?? this.file;
+		this.file = file;
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("ob-annotation-list-view");
+
+		if (!file) {
+			container.createDiv({ cls: "ob-annotation-list-empty", text: t('backlinksNoFile') });
+			return;
+		}
+		const header = container.createDiv({ cls: "ob-annotation-list-header" });
+		header.createDiv({ cls: "ob-annotation-list-title", text: file.basename });
+		if (!this.plugin.annotationIndexReady) {
+			container.createDiv({ cls: "ob-annotation-list-empty", text: t('browserScanning') });
+			return;
+		}
+
+		// 批注中的链接按其所在文件解析，与 Obsidian 对正文链接的处理一致
+		const { metadataCache } = this.app;
+		const groups: AnnotatedFile[] = [];
+		this.plugin.annotationIndex.getAnnotatedFiles().forEach(group => {
+			// 批注内容与回复中的链接都计入
+			const entries = group.entries.filter(entry =>
+				[entry.note, ...entry.replies.map(reply => reply.text)]
+					.some(content => extractNoteLinks(content).some(linkpath => metadataCache.getFirstLinkpathDest(linkpath, group.path) === file))
+			);
+			if (entries.length > 0) groups.push({ path: group.path, entries });
+		});
+
+		const total = groups.reduce((sum, group) => sum + group.entries.length, 0);
+		header.createDiv({ cls: "ob-annotation-list-count", text: t('listCount', total) });
+		if (groups.length === 0) {
+			container.createDiv({ cls: "ob-annotation-list-empty", text: t('backlinksEmpty') });
+			return;
+		}
+		groups.forEach(group => renderAnnotationGroup(container, group, this.plugin));
+	}
+}
+
+/**
+ * 浏览器与反向链接共用：以文件路径为标题的一组批注，点击跳转到批注位置
+ */
+function renderAnnotationGroup(parentEl: HTMLElement, group: AnnotatedFile, plugin: AnnotationPlugin) {
+	const file = plugin.app.vault.getFileByPath(group.path);
+	if (!file) return;
+	const t = plugin.t.bind(plugin);
+
+	const groupEl = parentEl.createDiv({ cls: "ob-annotation-browser-group" });
+	const header = groupEl.createDiv({ cls: "ob-annotation-list-header" });
+	header.createDiv({ cls: "ob-annotation-list-title", text: group.path });
+	header.createDiv({ cls: "ob-annotation-list-count", text: t('listCount', group.entries.length) });
+
+	const listEl = groupEl.createDiv({ cls: "ob-annotation-list" });
+	group.entries.forEach(entry => {
+		renderAnnotationEntry(listEl, entry, t, () => { void plugin.revealAnnotation(file, entry); });
+	});
+}
+
+/**
+ * 批注面板/浏览器共用的单条批注渲染：颜色圆点 + 原文 + 批注预览
+ */
+function renderAnnotationEntry(parentEl: HTMLElement, entry: AnnotationListEntry, t: TranslateFn, onReveal: () => void) {
+	const itemEl = parentEl.createDiv({ cls: "ob-annotation-list-item", attr: { tabindex: "0" } });
+	const textRow = itemEl.createDiv({ cls: "ob-annotation-list-text" });
+	const dot = textRow.createSpan({ cls: "ob-annotation-list-dot" });
+	dot.style.backgroundColor = getColorOption(entry.color).hex;
+	textRow.createSpan({ text: entry.text });
+
+	const preview = entry.note.replace(/\s+/g, " ").trim();
+	itemEl.createDiv({
+		cls: "ob-annotation-list-note",
+		text: preview.length > LIST_NOTE_PREVIEW_LENGTH
+			? preview.slice(0, LIST_NOTE_PREVIEW_LENGTH) + "…"
+			: preview || t('listEmptyNote')
+	});
+
+	const meta = [formatAnnotationMetadata(entry.metadata, t)];
+	if (entry.replies.length > 0) meta.push(t('metaReplies', entry.replies.length));
+	if (entry.status === "resolved") {
+		meta.push(t('metaResolved'));
+		itemEl.addClass("is-resolved");
+	}
+	const metaText = meta.filter(Boolean).join(" · ");
+	if (metaText) itemEl.createDiv({ cls: "ob-annotation-list-meta", text: metaText });
+
+	itemEl.addEventListener("click", onReveal);
+	itemEl.addEventListener("keydown", (e) => {
+		if (e.key === "Enter" || e.key === " ") {
+			e.preventDefault();
+			onReveal();
+		}
+	});
+}
+
 // --- CodeMirror 6 扩展 (保持不变) ---
 const livePreviewAnnotationPlugin = ViewPlugin.fromClass(class {
 	decorations: DecorationSet;
@@ -1587,7 +4836,7 @@ const livePreviewAnnotationPlugin = ViewPlugin.fromClass(class {
 		if (getCollapsedCursorAnnotationRange(view) !== null) return false;
 
 		const docText = view.state.doc.toString();
-		if (!docText.includes('data-note="')) return false;
+		if (!docText.includes('data-note')) return false;
 
 		const { text, changed, cursorOffset } = normalizeTextWithCursor(docText, selection.head);
 		if (!changed) return false;
@@ -1601,32 +4850,16 @@ const livePreviewAnnotationPlugin = ViewPlugin.fromClass(class {
 	}
 
 	buildDecorations(view: EditorView) {
-		const builder = new RangeSetBuilder<Decoration>();
+		const ranges: Range<Decoration>[] = [];
 		const text = view.state.doc.toString();
 		const selection = view.state.selection.main;
 		const cursorFrom = selection.from;
 		const cursorTo = selection.to;
 
-		let match;
-		COMMENT_REGEX.lastIndex = 0;
-
-		while ((match = COMMENT_REGEX.exec(text)) !== null) {
-			const fullMatch = match[0];
-			const colorClass = match[1] || "";
-			const noteContent = match[2];
-			const visibleText = match[3];
-			const noteText = decodeDataNote(noteContent);
-			
-			const startPos = match.index;
-			const endPos = startPos + fullMatch.length;
-
-			const openingTagLength = fullMatch.indexOf('>') + 1;
-			const openingTagFrom = startPos;
-			const openingTagTo = startPos + openingTagLength;
-			const contentFrom = openingTagTo;
-			const contentTo = contentFrom + visibleText.length;
-			const closingTagFrom = contentTo;
-			const closingTagTo = endPos;
+		// 嵌套批注各自生成装饰：光标所在的批注（含其外层）展开源码，其余批注照常渲染
+		for (const annotation of parseAnnotations(text).annotations) {
+			const startPos = annotation.from;
+			const endPos = annotation.to;
 
 			const isCursorInside = (cursorFrom >= startPos && cursorFrom <= endPos) || 
 								   (cursorTo >= startPos && cursorTo <= endPos);
@@ -1636,15 +4869,18 @@ const livePreviewAnnotationPlugin = ViewPlugin.fromClass(class {
 
 			if (isCursorInside || isForcedExpanded) continue;
 
-			builder.add(openingTagFrom, openingTagTo, Decoration.replace({}));
-			builder.add(contentFrom, contentTo, Decoration.mark({
-				class: buildAnnotationClass(colorClass),
-				attributes: { "data-note": noteText }
-			}));
-			builder.add(closingTagFrom, closingTagTo, Decoration.replace({}));
+			ranges.push(Decoration.replace({}).range(annotation.openTag.from, annotation.openTag.to));
+			if (annotation.inner.from < annotation.inner.to) {
+				ranges.push(Decoration.mark({
+					class: buildAnnotationClass(annotation.color, annotation.classes),
+					attributes: getDecorationAttributes(annotation)
+				}).range(annotation.inner.from, annotation.inner.to));
+			}
+			ranges.push(Decoration.replace({}).range(annotation.closeTag.from, annotation.closeTag.to));
 		}
 
-		return builder.finish();
+		// 嵌套时装饰的起点可能相同，交给 Decoration.set 排序
+		return Decoration.set(ranges, true);
 	}
 }, {
 	decorations: v => v.decorations
@@ -0,0 +1,85 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import {
+	buildExportRecords,
+	formatAnnotationsAsCsv,
+	formatAnnotationsAsHtml,
+	formatAnnotationsAsJson,
+	formatAnnotationsAsMarkdown,
+	sanitizeFileName,
+	type ExportOptions,
+} from "../annotation-export";
+import { collectAnnotationsInText } from "../annotation-normalization";
+
+const text = [
+	"intro",
+	'<span class="ob-comment red" data-note="line one&#10;line two" data-author="Ann" data-status="resolved">quoted, "text"</span>',
+	'<span class="ob-comment" data-note="&lt;b&gt;" data-replies="[{&quot;author&quot;:&quot;Bo&quot;,&quot;created&quot;:&quot;&quot;,&quot;text&quot;:&quot;ok&quot;}]">x</span>',
+].join("\n");
+
+const records = buildExportRecords([{ path: "Notes/Paper.md", entries: collectAnnotationsInText(text) }]);
+
+const options: ExportOptions = {
+	labels: {
+		title: "Annotations Export",
+		original: "Original",
+		annotation: "Annotation",
+		line: line => `line ${line}`,
+		reply: "Reply",
+		resolved: "resolved",
+	},
+	colorHex: color => (color === "red" ? "#e5484d" : "#ff9900"),
+};
+
+test("buildExportRecords flattens entries with one-based lines and metadata", () => {
+	assert.deepEqual(
+		records.map(record => [record.path, record.line, record.color, record.author, record.status]),
+		[["Notes/Paper.md", 2, "red", "Ann", "resolved"], ["Notes/Paper.md", 3, "", "", "open"]]
+	);
+});
+
+test("formatAnnotationsAsMarkdown links the source file and keeps multi-line notes inside the list", () => {
+	assert.equal(
+		formatAnnotationsAsMarkdown(records, options),
+		[
+			"## Annotations Export",
+			"",
+			"### [[Notes/Paper|Paper]]",
+			"",
+			'- **Original**: "quoted, "text"" (line 2 · resolved)',
+			"  - **Annotation**: line one",
+			"    line two",
+			'- **Original**: "x" (line 3)',
+			"  - **Annotation**: <b>",
+			"  - **Reply (Bo)**: ok",
+			"",
+		].join("\n")
+	);
+});
+
+test("formatAnnotationsAsCsv quotes cells that contain commas, quotes or newlines", () => {
+	const [header, first] = formatAnnotationsAsCsv(records).split("\r\n");
+	assert.equal(header, "path,line,color,text,note,status,id,author,created,modified,replies");
+	assert.equal(first, 'Notes/Paper.md,2,red,"quoted, ""text""","line one\nline two",resolved,,Ann,,,');
+});
+
+test("formatAnnotationsAsJson includes path, line, color, text and note", () => {
+	const [first] = JSON.parse(formatAnnotationsAsJson(records));
+	assert.equal(first.path, "Notes/Paper.md");
+	assert.equal(first.line, 2);
+	assert.equal(first.color, "red");
+	assert.equal(first.text, 'quoted, "text"');
+	assert.equal(first.note, "line one\nline two");
+});
+
+test("formatAnnotationsAsHtml escapes annotation content", () => {
+	const html = formatAnnotationsAsHtml(records, options);
+	assert.match(html, /^<!DOCTYPE html>/);
+	assert.match(html, /<div class="note">&lt;b&gt;<\/div>/);
+	assert.match(html, /class="annotation resolved" style="--color: #e5484d"/);
+});
+
+test("sanitizeFileName replaces characters that are invalid in file names", () => {
+	assert.equal(sanitizeFileName('a/b: "c"  #1'), "a-b- -c- -1");
+});
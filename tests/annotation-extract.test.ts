@@ -0,0 +1,43 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import {
+	DEFAULT_EXTRACT_TEMPLATE,
+	buildExtractFileName,
+	linkNoteToExtract,
+	renderExtractTemplate,
+	type ExtractVariables,
+} from "../annotation-extract";
+
+const variables: ExtractVariables = {
+	text: "first line\n\nsecond line",
+	note: "A thought",
+	source: "[[Papers/Source|Source]]",
+	title: "Source",
+	date: "2026-10-18",
+	time: "09:30",
+};
+
+test("renderExtractTemplate quotes the annotated text and fills the note and backlink", () => {
+	assert.equal(
+		renderExtractTemplate(DEFAULT_EXTRACT_TEMPLATE, variables),
+		"> first line\n>\n> second line\n\nA thought\n\nSource: [[Papers/Source|Source]]\n"
+	);
+});
+
+test("renderExtractTemplate keeps unknown variables untouched", () => {
+	assert.equal(renderExtractTemplate("{{ date }} {{title}} {{tp.file.title}} {{unknown}}", variables), "2026-10-18 Source {{tp.file.title}} {{unknown}}");
+});
+
+test("buildExtractFileName flattens, sanitizes and truncates the name", () => {
+	assert.equal(buildExtractFileName("{{title}}: {{text}}", variables, "Annotation"), "Source- first line second line");
+	assert.equal(buildExtractFileName("{{text}}", { ...variables, text: "x".repeat(200) }, "Annotation").length, 80);
+	assert.equal(buildExtractFileName("{{text}}", { ...variables, text: "///" }, "Annotation 2026"), "---");
+	assert.equal(buildExtractFileName("{{note}}", { ...variables, note: "  " }, "Annotation 2026"), "Annotation 2026");
+});
+
+test("linkNoteToExtract replaces the note or appends the link on its own paragraph", () => {
+	assert.equal(linkNoteToExtract("A thought\n", "[[New]]", "append"), "A thought\n\n[[New]]");
+	assert.equal(linkNoteToExtract("", "[[New]]", "append"), "[[New]]");
+	assert.equal(linkNoteToExtract("A thought", "[[New]]", "replace"), "[[New]]");
+});
@@ -0,0 +1,57 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { filterAnnotatedFiles, listAnnotatedFolders, type AnnotatedFile } from "../annotation-filter";
+import type { AnnotationListEntry } from "../annotation-normalization";
+
+const entry = (text: string, note: string, color = ""): AnnotationListEntry => ({ from: 0, to: 0, line: 0, text, note, color, metadata: {}, replies: [], status: "open" });
+
+const files: AnnotatedFile[] = [
+	{ path: "Papers/2024/a.md", entries: [entry("alpha", "Why?", "red"), entry("beta", "source needed")] },
+	{ path: "Papers/b.md", entries: [entry("gamma", "why not", "red")] },
+	{ path: "Journal.md", entries: [entry("delta", "idea", "green")] },
+];
+
+test("filterAnnotatedFiles keeps only matching colors and drops empty files", () => {
+	assert.deepEqual(
+		filterAnnotatedFiles(files, { color: "red", folder: "", query: "" }).map(file => [file.path, file.entries.length]),
+		[["Papers/2024/a.md", 1], ["Papers/b.md", 1]]
+	);
+});
+
+test("filterAnnotatedFiles treats empty color as the default class, not as any color", () => {
+	assert.deepEqual(
+		filterAnnotatedFiles(files, { color: "", folder: "", query: "" }).map(file => file.entries[0].text),
+		["beta"]
+	);
+});
+
+test("filterAnnotatedFiles limits to folder prefixes without matching sibling names", () => {
+	const withSibling = files.concat({ path: "Papers2/c.md", entries: [entry("eps", "x")] });
+	assert.deepEqual(
+		filterAnnotatedFiles(withSibling, { color: null, folder: "Papers", query: "" }).map(file => file.path),
+		["Papers/2024/a.md", "Papers/b.md"]
+	);
+});
+
+test("filterAnnotatedFiles searches text and note case-insensitively with all terms", () => {
+	assert.deepEqual(
+		filterAnnotatedFiles(files, { color: null, folder: "", query: "WHY gam" }).map(file => file.entries[0].text),
+		["gamma"]
+	);
+});
+
+test("filterAnnotatedFiles also searches reply authors and text", () => {
+	const withReply = files.concat({
+		path: "Thread.md",
+		entries: [{ ...entry("zeta", "x"), replies: [{ author: "Ann", created: "", text: "looks fine" }] }],
+	});
+	assert.deepEqual(
+		filterAnnotatedFiles(withReply, { color: null, folder: "", query: "ann fine" }).map(file => file.path),
+		["Thread.md"]
+	);
+});
+
+test("listAnnotatedFolders returns every ancestor folder sorted", () => {
+	assert.deepEqual(listAnnotatedFolders(files), ["Papers", "Papers/2024"]);
+});
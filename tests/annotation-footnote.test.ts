@@ -0,0 +1,89 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { convertAnnotationsToFootnotes, convertFootnotesToAnnotations } from "../annotation-footnote";
+
+test("convertAnnotationsToFootnotes numbers references in reading order and appends definitions", () => {
+	const input = [
+		'A <span class="ob-comment red" data-note="outer">big <span class="ob-comment" data-note="two&#10;lines">claim</span></span>.',
+		'Existing[^1] and <span class="ob-comment" data-note="">empty</span>.',
+		"",
+		"[^1]: old",
+		"",
+	].join("\n");
+	const result = convertAnnotationsToFootnotes(input);
+
+	assert.equal(result.count, 2);
+	assert.equal(
+		result.text,
+		[
+			"A big claim[^2][^3].",
+			'Existing[^1] and <span class="ob-comment" data-note="">empty</span>.',
+			"",
+			"[^1]: old",
+			"",
+			"[^2]: two",
+			"    lines",
+			"[^3]: outer",
+			"",
+		].join("\n")
+	);
+});
+
+test("convertAnnotationsToFootnotes leaves annotations inside code untouched", () => {
+	const input = [
+		"```html",
+		'<span class="ob-comment" data-note="sample">fenced</span>',
+		"```",
+		'`<span class="ob-comment" data-note="inline">code</span>` and <span class="ob-comment" data-note="real">text</span>',
+	].join("\n");
+	const result = convertAnnotationsToFootnotes(input);
+
+	assert.equal(result.count, 1);
+	assert.equal(
+		result.text,
+		[
+			"```html",
+			'<span class="ob-comment" data-note="sample">fenced</span>',
+			"```",
+			'`<span class="ob-comment" data-note="inline">code</span>` and text[^1]',
+			"",
+			"[^1]: real",
+			"",
+		].join("\n")
+	);
+});
+
+test("convertAnnotationsToFootnotes only converts annotations overlapping the range", () => {
+	const input = '<span class="ob-comment" data-note="a">one</span> <span class="ob-comment" data-note="b">two</span>';
+	const from = input.indexOf("two");
+	assert.equal(
+		convertAnnotationsToFootnotes(input, { from, to: from + 3 }).text,
+		'<span class="ob-comment" data-note="a">one</span> two[^1]\n\n[^1]: b\n'
+	);
+});
+
+test("convertFootnotesToAnnotations wraps the highlight or preceding word and removes used definitions", () => {
+	const input = "The ==key idea==[^a] and word[^b], see [link](x)[^b].\n\n[^a]: first\n    more\n[^b]: second\n";
+	const result = convertFootnotesToAnnotations(input, { color: "blue" });
+
+	assert.equal(result.count, 2);
+	assert.equal(
+		result.text,
+		'The <span class="ob-comment blue" data-note="first&#10;more">key idea</span> and <span class="ob-comment blue" data-note="second">word</span>, see [link](x)[^b].\n\n[^b]: second\n'
+	);
+});
+
+test("footnotes round-trip back into annotations for single-word notes", () => {
+	const input = 'A <span class="ob-comment" data-note="n &amp; m">word</span> here.\n';
+	assert.equal(convertFootnotesToAnnotations(convertAnnotationsToFootnotes(input).text).text, input);
+});
+
+test("convertFootnotesToAnnotations ignores code and references outside the range", () => {
+	const input = "`x[^1]` y[^1] z[^1]\n\n[^1]: note";
+	const from = input.indexOf("y");
+	assert.equal(
+		convertFootnotesToAnnotations(input, { range: { from, to: from + 1 } }).text,
+		'`x[^1]` <span class="ob-comment" data-note="note">y</span> z[^1]\n\n[^1]: note'
+	);
+});
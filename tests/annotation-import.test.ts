@@ -0,0 +1,56 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { IMPORT_SOURCES, convertForeignAnnotations } from "../annotation-import";
+
+const convert = (text: string) => convertForeignAnnotations(text, { sources: IMPORT_SOURCES });
+
+test("convertForeignAnnotations turns a highlight with a footnote into an annotation and drops the definition", () => {
+	const input = "See ==this claim==[^1] here.\n\n[^1]: Needs a source\n    second line\nAfter";
+	const result = convert(input);
+
+	assert.equal(
+		result.text,
+		'See <span class="ob-comment" data-note="Needs a source&#10;second line">this claim</span> here.\n\nAfter'
+	);
+	assert.deepEqual(result.conversions.map(item => [item.source, item.line, item.original]), [["highlight-footnote", 0, "==this claim==[^1]"]]);
+});
+
+test("convertForeignAnnotations keeps footnote definitions that are still referenced", () => {
+	const input = "==a==[^n] and plain[^n]\n\n[^n]: shared";
+	assert.equal(convert(input).text, '<span class="ob-comment" data-note="shared">a</span> and plain[^n]\n\n[^n]: shared');
+});
+
+test("convertForeignAnnotations converts %%comments%% after a highlight or a word", () => {
+	assert.equal(
+		convert("==key idea== %%why?%% and word%%note%%").text,
+		'<span class="ob-comment" data-note="why?">key idea</span> and <span class="ob-comment" data-note="note">word</span>'
+	);
+});
+
+test("convertForeignAnnotations converts mark, abbr and titled span tags", () => {
+	const input = [
+		'<mark>plain</mark> <mark title="m">marked</mark>',
+		'<abbr title="HyperText &amp; more">HTML</abbr>',
+		"<span title='tip'>hint</span> <span class=\"ob-comment\" title=\"x\" data-note=\"n\">kept</span>",
+	].join("\n");
+	const result = convert(input);
+
+	assert.equal(
+		result.text,
+		[
+			'<span class="ob-comment" data-note="">plain</span> <span class="ob-comment" data-note="m">marked</span>',
+			'<span class="ob-comment" data-note="HyperText &amp; more">HTML</span>',
+			'<span class="ob-comment" data-note="tip">hint</span> <span class="ob-comment" title="x" data-note="n">kept</span>',
+		].join("\n")
+	);
+	assert.deepEqual(result.conversions.map(item => [item.source, item.line]), [["mark", 0], ["mark", 0], ["abbr", 1], ["span-title", 2]]);
+});
+
+test("convertForeignAnnotations leaves code untouched and respects the selected sources", () => {
+	const input = "`==a== %%b%%`\n```\n<mark>c</mark>\n```\n<mark>d</mark> ==e== %%f%%";
+	assert.equal(
+		convertForeignAnnotations(input, { sources: ["mark"], color: "red" }).text,
+		'`==a== %%b%%`\n```\n<mark>c</mark>\n```\n<span class="ob-comment red" data-note="">d</span> ==e== %%f%%'
+	);
+});
@@ -0,0 +1,66 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { AnnotationIndex } from "../annotation-index";
+
+const annotated = '<span class="ob-comment red" data-note="why?">text</span>';
+
+test("AnnotationIndex reports entry changes only when annotations differ", () => {
+	const index = new AnnotationIndex();
+	assert.equal(index.update("a.md", { mtime: 1, size: 10 }, "plain"), false);
+	assert.equal(index.update("a.md", { mtime: 2, size: 60 }, annotated), true);
+	assert.equal(index.update("a.md", { mtime: 3, size: 65 }, annotated + " tail"), false);
+	assert.deepEqual(index.getEntries("a.md").map(entry => entry.note), ["why?"]);
+});
+
+test("AnnotationIndex tracks freshness by mtime and size", () => {
+	const index = new AnnotationIndex();
+	index.update("a.md", { mtime: 5, size: 5 }, "plain");
+	assert.equal(index.isFresh("a.md", { mtime: 5, size: 5 }), true);
+	assert.equal(index.isFresh("a.md", { mtime: 6, size: 5 }), false);
+	assert.equal(index.isFresh("b.md", { mtime: 5, size: 5 }), false);
+});
+
+test("AnnotationIndex moves entries on rename and drops them on delete", () => {
+	const index = new AnnotationIndex();
+	index.update("old.md", { mtime: 1, size: 1 }, annotated);
+	assert.equal(index.rename("old.md", "new.md"), true);
+	assert.deepEqual(index.getAnnotatedFiles().map(file => file.path), ["new.md"]);
+	assert.equal(index.remove("new.md"), true);
+	assert.deepEqual(index.getAnnotatedFiles(), []);
+});
+
+test("AnnotationIndex prunes files missing from the vault", () => {
+	const index = new AnnotationIndex();
+	index.update("keep.md", { mtime: 1, size: 1 }, annotated);
+	index.update("gone.md", { mtime: 1, size: 1 }, annotated);
+	assert.equal(index.prune(new Set(["keep.md"])), true);
+	assert.deepEqual(index.getAnnotatedFiles().map(file => file.path), ["keep.md"]);
+});
+
+test("AnnotationIndex round-trips through serialization and ignores unknown versions", () => {
+	const index = new AnnotationIndex();
+	index.update("a.md", { mtime: 7, size: 8 }, annotated);
+
+	const restored = AnnotationIndex.fromSerialized(JSON.parse(JSON.stringify(index.serialize())));
+	assert.equal(restored.isFresh("a.md", { mtime: 7, size: 8 }), true);
+	assert.deepEqual(restored.getAnnotatedFiles(), index.getAnnotatedFiles());
+
+	const discarded = AnnotationIndex.fromSerialized({ version: 999, files: index.serialize().files });
+	assert.deepEqual(discarded.getAnnotatedFiles(), []);
+});
+
+test("AnnotationIndex serializes entries only for annotated files and keeps the rest as stats", () => {
+	const index = new AnnotationIndex();
+	index.update("a.md", { mtime: 7, size: 8 }, annotated);
+	index.update("plain.md", { mtime: 3, size: 4 }, "plain");
+
+	const serialized = index.serialize();
+	assert.deepEqual(Object.keys(serialized.files), ["a.md"]);
+	assert.deepEqual(serialized.unannotated, { "plain.md": [3, 4] });
+
+	const restored = AnnotationIndex.fromSerialized(JSON.parse(JSON.stringify(serialized)));
+	assert.equal(restored.isFresh("plain.md", { mtime: 3, size: 4 }), true);
+	assert.equal(restored.has("plain.md"), true);
+	assert.deepEqual(restored.getAnnotatedFiles().map(file => file.path), ["a.md"]);
+});
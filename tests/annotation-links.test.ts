@@ -0,0 +1,68 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { extractNoteLinks, renameLinksInAnnotations, renameLinksInNote, type LinkRename } from "../annotation-links";
+import { buildAnnotationHtml, parseAnnotations } from "../annotation-parser";
+import { getAnnotationReplies, withAnnotationReplies } from "../annotation-thread";
+
+const rename: LinkRename = {
+	isTarget: linkpath => ["old note", "notes/old note", "notes/old note.md"].includes(linkpath.toLowerCase()),
+	wikilink: "Archive/New Note",
+	markdownLink: "Archive/New Note.md",
+};
+
+test("extractNoteLinks returns internal wikilink and Markdown link paths without subpaths", () => {
+	assert.deepEqual(
+		extractNoteLinks("[[A]] ![[Sub/B#H|b]] [[#Local]] [c](C%20D.md#x) [web](https://example.com)"),
+		["A", "Sub/B", "C D.md"]
+	);
+});
+
+test("renameLinksInNote keeps headings, block references and aliases", () => {
+	const result = renameLinksInNote("See [[Old Note]], ![[Notes/Old Note#Intro|intro]] and [[Old Note#^abc]] but not [[Other]]", rename);
+	assert.equal(result.text, "See [[Archive/New Note]], ![[Archive/New Note#Intro|intro]] and [[Archive/New Note#^abc]] but not [[Other]]");
+	assert.equal(result.count, 3);
+});
+
+test("renameLinksInNote updates Markdown links and leaves external URLs alone", () => {
+	const result = renameLinksInNote("[a](Notes/Old%20Note.md#Part) [b](https://old note) [c](Other.md)", rename);
+	assert.equal(result.text, "[a](Archive/New%20Note.md#Part) [b](https://old note) [c](Other.md)");
+	assert.equal(result.count, 1);
+});
+
+test("renameLinksInAnnotations rewrites escaped data-note values of nested annotations", () => {
+	const text = [
+		'<span class="ob-comment" data-note="see [[Old Note|&quot;x&quot;]]">a <span class="ob-comment" data-note=\'line&#10;[[Old Note]]\'>b</span></span>',
+		'<span class="ob-comment" data-note=[[Old]]>c</span> [[Old Note]]',
+	].join("\n");
+	const result = renameLinksInAnnotations(text, rename);
+
+	assert.equal(
+		result.text,
+		[
+			'<span class="ob-comment" data-note="see [[Archive/New Note&#124;&quot;x&quot;]]">a <span class="ob-comment" data-note=\'line&#10;[[Archive/New Note]]\'>b</span></span>',
+			'<span class="ob-comment" data-note=[[Old]]>c</span> [[Old Note]]',
+		].join("\n")
+	);
+	assert.equal(result.count, 2);
+});
+
+test("renameLinksInAnnotations rewrites links inside reply bodies", () => {
+	const replies = [
+		{ author: "Bo", created: "2026-01-02T03:04", text: "Also see [[Old Note#Part]]" },
+		{ author: "", created: "", text: "[[Other]]" },
+	];
+	const text = buildAnnotationHtml({ color: "", note: "[[Old Note]]", text: "a", attributes: withAnnotationReplies([], replies) });
+	const result = renameLinksInAnnotations(text, rename);
+
+	assert.equal(result.count, 2);
+	const [annotation] = parseAnnotations(result.text).annotations;
+	assert.equal(annotation.note, "[[Archive/New Note]]");
+	assert.deepEqual(getAnnotationReplies(annotation.attributes).map(reply => reply.text), ["Also see [[Archive/New Note#Part]]", "[[Other]]"]);
+	assert.equal(getAnnotationReplies(annotation.attributes)[0].author, "Bo");
+});
+
+test("renameLinksInAnnotations returns the original text when nothing links to the file", () => {
+	const text = '<span class="ob-comment" data-note="[[Other]]">a</span>';
+	assert.deepEqual(renameLinksInAnnotations(text, rename), { text, count: 0 });
+});
@@ -0,0 +1,59 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import {
+	formatTimestamp,
+	generateAnnotationId,
+	getAnnotationMetadata,
+	getAnnotationStatus,
+	withAnnotationMetadata,
+	withAnnotationStatus,
+} from "../annotation-metadata";
+import { buildAnnotationOpenTag, parseAnnotations } from "../annotation-parser";
+
+const parse = (html: string) => parseAnnotations(html).annotations[0];
+
+test("getAnnotationMetadata decodes metadata attributes and skips missing ones", () => {
+	const annotation = parse('<span class="ob-comment" data-note="n" data-author="A &quot;B&quot;" data-id="k1">t</span>');
+	assert.deepEqual(getAnnotationMetadata(annotation.attributes), { id: "k1", author: 'A "B"' });
+});
+
+test("withAnnotationMetadata replaces in place, appends in fixed order and removes null values", () => {
+	const annotation = parse('<span class="ob-comment" data-note="n" data-modified="old" id="x" data-author="A">t</span>');
+	const attributes = withAnnotationMetadata(annotation.attributes, {
+		modified: "2026-10-18T09:00:00Z",
+		id: "k1",
+		author: null,
+		created: "2026-10-18T08:00:00Z",
+	});
+
+	assert.equal(
+		buildAnnotationOpenTag({ color: "", note: "n", attributes }),
+		'<span class="ob-comment" data-note="n" data-modified="2026-10-18T09:00:00Z" id="x" data-id="k1" data-created="2026-10-18T08:00:00Z">'
+	);
+});
+
+test("withAnnotationMetadata escapes values so they round-trip through the parser", () => {
+	const attributes = withAnnotationMetadata([], { author: 'Ann "& Bo"' });
+	const html = `${buildAnnotationOpenTag({ color: "", note: "n", attributes })}t</span>`;
+	assert.deepEqual(getAnnotationMetadata(parse(html).attributes), { author: 'Ann "& Bo"' });
+});
+
+test("annotation status defaults to open and only resolved is written", () => {
+	const annotation = parse('<span class="ob-comment" data-note="n" data-id="k1">t</span>');
+	assert.equal(getAnnotationStatus(annotation.attributes), "open");
+
+	const resolved = withAnnotationStatus(annotation.attributes, "resolved");
+	assert.equal(buildAnnotationOpenTag({ color: "", note: "n", attributes: resolved }), '<span class="ob-comment" data-note="n" data-id="k1" data-status="resolved">');
+	assert.equal(getAnnotationStatus(resolved), "resolved");
+	assert.deepEqual(withAnnotationStatus(resolved, "open"), annotation.attributes);
+});
+
+test("generateAnnotationId combines time and a fixed-width random suffix", () => {
+	assert.equal(generateAnnotationId(0, () => 0), "00000");
+	assert.equal(generateAnnotationId(36, () => 0.5), "10i000");
+});
+
+test("formatTimestamp drops milliseconds", () => {
+	assert.equal(formatTimestamp(new Date(Date.UTC(2026, 9, 18, 8, 30, 5, 123))), "2026-10-18T08:30:05Z");
+});
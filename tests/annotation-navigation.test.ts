@@ -0,0 +1,37 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { findAdjacentAnnotation } from "../annotation-navigation";
+import { parseAnnotations } from "../annotation-parser";
+
+const text = [
+	'<span class="ob-comment" data-note="one">a</span>',
+	'<span class="ob-comment red" data-note="two">b</span>',
+	'<span class="ob-comment" data-note="three">c</span>',
+].join("\n");
+const annotations = parseAnnotations(text).annotations;
+const [first, second, third] = annotations;
+
+const noteOf = (result: ReturnType<typeof findAdjacentAnnotation>) => result && [result.annotation.note, result.wrapped];
+
+test("findAdjacentAnnotation moves forward and skips the annotation the cursor starts on", () => {
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, 0, "next")), ["two", false]);
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, first.from + 3, "next")), ["two", false]);
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, second.from, "next")), ["three", false]);
+});
+
+test("findAdjacentAnnotation moves backward from inside an annotation to its start", () => {
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, third.from + 3, "previous")), ["three", false]);
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, third.from, "previous")), ["two", false]);
+});
+
+test("findAdjacentAnnotation wraps around at either end", () => {
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, third.from, "next")), ["one", true]);
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, 0, "previous")), ["three", true]);
+});
+
+test("findAdjacentAnnotation filters by color", () => {
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, 0, "next", "")), ["three", false]);
+	assert.deepEqual(noteOf(findAdjacentAnnotation(annotations, second.from, "next", "red")), ["two", true]);
+	assert.equal(findAdjacentAnnotation(annotations, 0, "next", "blue"), null);
+});
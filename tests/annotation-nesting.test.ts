@@ -0,0 +1,47 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { findAnnotationsAtOffset, planAnnotationSegments } from "../annotation-nesting";
+import { parseAnnotations } from "../annotation-parser";
+
+const existing = '<span class="ob-comment" data-note="clause">word one</span>';
+const text = `before ${existing} after`;
+const { annotations } = parseAnnotations(text);
+const [annotation] = annotations;
+
+const slices = (ranges: { from: number; to: number }[]) => ranges.map(range => text.slice(range.from, range.to));
+
+test("planAnnotationSegments keeps a selection that wraps an annotation in one piece", () => {
+	assert.deepEqual(slices(planAnnotationSegments(annotations, 0, text.length)), [text]);
+});
+
+test("planAnnotationSegments keeps a selection inside annotated text in one piece", () => {
+	const from = text.indexOf("one");
+	assert.deepEqual(slices(planAnnotationSegments(annotations, from, from + 3)), ["one"]);
+});
+
+test("planAnnotationSegments splits a selection that starts before and ends inside an annotation", () => {
+	const from = text.indexOf("before");
+	const to = text.indexOf(" one");
+	assert.deepEqual(slices(planAnnotationSegments(annotations, from, to)), ["before ", "word"]);
+});
+
+test("planAnnotationSegments splits a selection that starts inside and ends after an annotation", () => {
+	const from = text.indexOf("one");
+	assert.deepEqual(slices(planAnnotationSegments(annotations, from, text.length)), ["one", " after"]);
+});
+
+test("planAnnotationSegments snaps selection ends out of annotation tags", () => {
+	const from = annotation.openTag.from + 3;
+	const to = annotation.closeTag.from + 2;
+	assert.deepEqual(slices(planAnnotationSegments(annotations, from, to)), ["word one"]);
+});
+
+test("findAnnotationsAtOffset lists enclosing annotations from outer to inner", () => {
+	const nested = '<span class="ob-comment" data-note="outer">a <span class="ob-comment" data-note="inner">b</span></span>';
+	const parsed = parseAnnotations(nested).annotations;
+	assert.deepEqual(
+		findAnnotationsAtOffset(parsed, nested.indexOf(">b<") + 1).map(item => item.note),
+		["outer", "inner"]
+	);
+});
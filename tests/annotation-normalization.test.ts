@@ -2,6 +2,7 @@ import * as assert from "node:assert/strict";
 import test = require("node:test");
 
 import {
+	collectAnnotationsInText,
 	getAutoNormalizeAction,
 	normalizeAnnotationsInText,
 	normalizeTextWithCursor,
@@ -29,6 +30,25 @@ test("normalizeAnnotationsInText leaves already escaped notes unchanged", () =>
 	);
 });
 
+test("normalizeAnnotationsInText rewrites reordered attributes and keeps extra ones", () => {
+	const input = "<span data-note='a\nb' id='x1' class='ob-comment red'>hello</span>";
+	assert.deepEqual(
+		normalizeAnnotationsInText(input),
+		{
+			text: '<span class="ob-comment red" data-note="a&#10;b" id="x1">hello</span>',
+			changed: true,
+		}
+	);
+});
+
+test("normalizeAnnotationsInText normalizes nested annotations independently", () => {
+	const input = '<span class="ob-comment" data-note="o\nuter">a <span class="ob-comment red" data-note="in\nner">b</span></span>';
+	assert.equal(
+		normalizeAnnotationsInText(input).text,
+		'<span class="ob-comment" data-note="o&#10;uter">a <span class="ob-comment red" data-note="in&#10;ner">b</span></span>'
+	);
+});
+
 test("normalizeTextWithCursor shifts cursor when replacement happens before it", () => {
 	const input = '<span class="ob-comment" data-note="line 1\nline 2">hello</span> tail';
 	const originalCursor = input.length;
@@ -52,6 +72,36 @@ test("normalizeTextWithCursor preserves logical cursor position inside data-note
 	);
 });
 
+test("collectAnnotationsInText lists annotations with line, color and decoded note", () => {
+	const first = '<span class="ob-comment" data-note="a&#10;b">one</span>';
+	const second = '<span class="ob-comment red" data-note="x &amp; y" data-author="Ann &amp; Bo" data-created="2026-10-18T08:30:00Z">two</span>';
+	const input = `${first}\nplain\n\n${second}`;
+
+	assert.deepEqual(collectAnnotationsInText(input), [
+		{ from: 0, to: first.length, line: 0, text: "one", note: "a\nb", color: "", metadata: {}, replies: [], status: "open" },
+		{
+			from: input.indexOf(second),
+			to: input.length,
+			line: 3,
+			text: "two",
+			note: "x & y",
+			color: "red",
+			metadata: { author: "Ann & Bo", created: "2026-10-18T08:30:00Z" },
+			replies: [],
+			status: "open",
+		},
+	]);
+});
+
+test("normalizeAnnotationsInText keeps metadata attributes when rewriting a legacy note", () => {
+	const input = '<span data-id="k1" class="ob-comment" data-note="a\nb" data-author="Ann" data-modified="2026-10-18T08:30:00Z">x</span>';
+
+	assert.equal(
+		normalizeAnnotationsInText(input).text,
+		'<span class="ob-comment" data-note="a&#10;b" data-id="k1" data-author="Ann" data-modified="2026-10-18T08:30:00Z">x</span>'
+	);
+});
+
 test("getAutoNormalizeAction schedules once the cursor exits an annotation", () => {
 	assert.equal(
 		getAutoNormalizeAction({
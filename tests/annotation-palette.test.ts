@@ -0,0 +1,66 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import {
+	BUILTIN_PALETTE,
+	buildPaletteCss,
+	createPaletteColor,
+	hexToRgb,
+	moveColor,
+	normalizePalette,
+	toColorClass,
+} from "../annotation-palette";
+
+test("normalizePalette falls back to the built-in palette", () => {
+	assert.deepEqual(normalizePalette(undefined), BUILTIN_PALETTE);
+});
+
+test("normalizePalette drops invalid or duplicate colors and keeps the default color", () => {
+	assert.deepEqual(
+		normalizePalette([
+			{ value: "question", label: "Question", hex: "#ff0000" },
+			{ value: "question", label: "Dup", hex: "#00ff00" },
+			{ value: "bad class", label: "", hex: "#00ff00" },
+			{ value: "ok", label: "", hex: "not-a-color" },
+		]),
+		[
+			{ value: "", label: "", hex: "#ff9900" },
+			{ value: "question", label: "Question", hex: "#ff0000" },
+		]
+	);
+});
+
+test("toColorClass turns labels into class names", () => {
+	assert.equal(toColorClass("Source needed"), "source-needed");
+	assert.equal(toColorClass("  42 Answers! "), "answers");
+	assert.equal(toColorClass("ob-comment"), "");
+});
+
+test("createPaletteColor derives a unique class name from the label", () => {
+	const palette = [{ value: "question", label: "Question", hex: "#000000" }];
+	assert.deepEqual(createPaletteColor(palette, " Question ", "#ffffff"), { value: "question-2", label: "Question", hex: "#ffffff" });
+	assert.equal(createPaletteColor(palette, "待核实", "#ffffff").value, "color-2");
+});
+
+test("hexToRgb expands short hex values", () => {
+	assert.deepEqual(hexToRgb("#f90"), [255, 153, 0]);
+	assert.deepEqual(hexToRgb("#3498db"), [52, 152, 219]);
+});
+
+test("moveColor reorders within bounds only", () => {
+	const palette = [
+		{ value: "a", label: "", hex: "#000" },
+		{ value: "b", label: "", hex: "#111" },
+	];
+	assert.deepEqual(moveColor(palette, 1, -1).map(color => color.value), ["b", "a"]);
+	assert.equal(moveColor(palette, 0, -1), palette);
+});
+
+test("buildPaletteCss targets the default class and color classes", () => {
+	const css = buildPaletteCss([
+		{ value: "", label: "", hex: "#ff9900" },
+		{ value: "question", label: "Question", hex: "#000000" },
+	]);
+	assert.match(css, /^\.ob-comment \{ --highlight-color: #ff9900; \}/);
+	assert.match(css, /body\.ob-show-background \.ob-comment\.question \{ background-color: rgba\(0, 0, 0, var\(--highlight-bg-alpha\)\) !important; \}/);
+});
@@ -0,0 +1,81 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { buildAnnotationHtml, parseAnnotations, stripAnnotationTags } from "../annotation-parser";
+
+test("parseAnnotations returns ranges for the canonical format", () => {
+	const input = 'a <span class="ob-comment red" data-note="x &amp; y">hello</span> b';
+	const { annotations, errors } = parseAnnotations(input);
+
+	assert.deepEqual(errors, []);
+	assert.equal(annotations.length, 1);
+	const [annotation] = annotations;
+	assert.equal(input.slice(annotation.from, annotation.to), '<span class="ob-comment red" data-note="x &amp; y">hello</span>');
+	assert.equal(input.slice(annotation.inner.from, annotation.inner.to), "hello");
+	assert.equal(input.slice(annotation.noteRange.from, annotation.noteRange.to), "x &amp; y");
+	assert.equal(annotation.note, "x & y");
+	assert.equal(annotation.color, "red");
+	assert.equal(annotation.depth, 0);
+});
+
+test("parseAnnotations tolerates reordered attributes, single quotes and extra attributes", () => {
+	const input = "<span data-note='it\"s' id=\"a1\" class='ob-comment blue extra' hidden>text</span>";
+	const [annotation] = parseAnnotations(input).annotations;
+
+	assert.equal(annotation.note, "it\"s");
+	assert.equal(annotation.color, "blue");
+	assert.deepEqual(annotation.classes, ["extra"]);
+	assert.deepEqual(annotation.attributes.map(attr => [attr.name, attr.value]), [["id", "a1"], ["hidden", null]]);
+});
+
+test("parseAnnotations matches the closing tag of nested non-annotation spans", () => {
+	const input = '<span class="ob-comment" data-note="n">a <span style="color:red">b</span> c</span> tail';
+	const [annotation] = parseAnnotations(input).annotations;
+
+	assert.equal(annotation.text, 'a <span style="color:red">b</span> c');
+	assert.equal(input.slice(annotation.to), " tail");
+});
+
+test("parseAnnotations keeps legacy unescaped quotes inside data-note", () => {
+	const input = '<span class="ob-comment" data-note="say "hi" now">x</span>';
+	const [annotation] = parseAnnotations(input).annotations;
+
+	assert.equal(annotation.note, 'say "hi" now');
+	assert.equal(annotation.text, "x");
+});
+
+test("parseAnnotations reports nesting depth", () => {
+	const input = '<span class="ob-comment" data-note="outer">a <span class="ob-comment green" data-note="inner">b</span></span>';
+	const { annotations } = parseAnnotations(input);
+
+	assert.deepEqual(annotations.map(annotation => [annotation.note, annotation.depth]), [["outer", 0], ["inner", 1]]);
+});
+
+test("stripAnnotationTags keeps only the visible text of nested annotations", () => {
+	assert.equal(
+		stripAnnotationTags('a <span class="ob-comment" data-note="n">b</span> <span style="x">c</span>'),
+		'a b <span style="x">c</span>'
+	);
+});
+
+test("parseAnnotations reports malformed annotation spans", () => {
+	const input = [
+		'<span class="ob-comment">no note</span>',
+		'<span class="ob-comment" data-note="open">never closed',
+		'<span class="ob-comment" data-note="unterminated',
+	].join("\n");
+
+	assert.deepEqual(
+		parseAnnotations(input).errors.map(error => error.reason),
+		["missing-note", "unclosed-span", "unterminated-tag"]
+	);
+});
+
+test("buildAnnotationHtml writes class and data-note first and keeps extra attributes", () => {
+	const [annotation] = parseAnnotations("<span id='a1' data-note='x' class='ob-comment red'>t</span>").annotations;
+
+	assert.equal(
+		buildAnnotationHtml({ ...annotation, note: "a\nb", text: annotation.text }),
+		'<span class="ob-comment red" data-note="a&#10;b" id="a1">t</span>'
+	);
+});
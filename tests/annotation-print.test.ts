@@ -0,0 +1,18 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { collectPrintNotes } from "../annotation-print";
+
+test("collectPrintNotes numbers annotations with notes in document order", () => {
+	const text = [
+		'<span class="ob-comment" data-note="outer">a <span class="ob-comment" data-note="inner&#10;two">b</span></span>',
+		'<span class="ob-comment" data-note="">empty</span> `<span class="ob-comment" data-note="code">c</span>`',
+		'<span class="ob-comment" data-note="last">d</span>',
+	].join("\n");
+
+	assert.deepEqual(
+		collectPrintNotes(text).map(note => [note.number, note.note]),
+		[[1, "outer"], [2, "inner\ntwo"], [3, "last"]]
+	);
+	assert.equal(collectPrintNotes(text)[2].from, text.lastIndexOf("<span"));
+});
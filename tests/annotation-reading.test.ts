@@ -0,0 +1,78 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { readAnnotationMetadata } from "../annotation-metadata";
+import { buildAnnotationHtml, parseAnnotations } from "../annotation-parser";
+import { REPLIES_ATTRIBUTE, parseReplies, withAnnotationReplies } from "../annotation-thread";
+import { createAnnotationLocator, findLocatedAnnotation, findRenderedAnnotations, getDecorationAttributes, getLineOffset } from "../annotation-reading";
+
+test("findRenderedAnnotations skips annotations inside code and keeps document order", () => {
+	const text = [
+		'<span class="ob-comment" data-note="outer">a <span class="ob-comment" data-note="inner">b</span></span>',
+		'`<span class="ob-comment" data-note="code">c</span>`',
+		"```",
+		'<span class="ob-comment" data-note="fence">d</span>',
+		"```",
+		'> [!note] <span class="ob-comment" data-note="callout">e</span>',
+	].join("\n");
+
+	assert.deepEqual(findRenderedAnnotations(text).map(annotation => annotation.note), ["outer", "inner", "callout"]);
+});
+
+test("getLineOffset returns the start of a line and clamps past the end", () => {
+	const text = "ab\ncde\n\nf";
+	assert.equal(getLineOffset(text, 0), 0);
+	assert.equal(getLineOffset(text, 1), 3);
+	assert.equal(getLineOffset(text, 3), 8);
+	assert.equal(getLineOffset(text, 9), text.length);
+});
+
+test("getDecorationAttributes carries metadata so the live preview tooltip can show it", () => {
+	const [annotation] = parseAnnotations(
+		'<span class="ob-comment" data-note="n" data-id="a1" data-author="Ann &amp; Bo" data-created="2026-01-02T03:04" data-modified="2026-01-03T03:04">x</span>'
+	).annotations;
+	const attributes = getDecorationAttributes(annotation);
+	assert.deepEqual(readAnnotationMetadata(name => attributes[name]), {
+		id: "a1",
+		author: "Ann & Bo",
+		created: "2026-01-02T03:04",
+		modified: "2026-01-03T03:04",
+	});
+});
+
+test("getDecorationAttributes carries the reply thread so the live preview tooltip can show it", () => {
+	const replies = [{ author: "Bo", created: "2026-01-02T03:04", text: "Agreed & \"quoted\"\nsecond line" }];
+	const html = buildAnnotationHtml({ color: "", note: "n", text: "x", attributes: withAnnotationReplies([], replies) });
+	const attributes = getDecorationAttributes(parseAnnotations(html).annotations[0]);
+	assert.deepEqual(parseReplies(attributes[REPLIES_ATTRIBUTE]), replies);
+});
+
+test("findLocatedAnnotation follows an annotation after edits shift its offset", () => {
+	const span = (note: string, text: string, extra = "") => `<span class="ob-comment"${extra} data-note="${note}">${text}</span>`;
+	const before = `${span("a", "one")} ${span("b", "two")}`;
+	const [, second] = parseAnnotations(before).annotations;
+	const locator = createAnnotationLocator(second);
+
+	const after = `Inserted line\n${span("x", "new")} ${before}`;
+	const annotations = parseAnnotations(after).annotations;
+	assert.equal(findLocatedAnnotation(annotations, locator)?.note, "b");
+	assert.equal(findLocatedAnnotation(annotations, { from: second.from }), null);
+	assert.equal(findLocatedAnnotation(annotations, { ...locator, note: "gone" }), null);
+});
+
+test("findLocatedAnnotation prefers the id and picks the closest segment", () => {
+	const text = [
+		'<span class="ob-comment" data-note="old" data-id="k1">a</span>',
+		'<span class="ob-comment" data-note="edited" data-id="k1">b</span>',
+	].join(" ");
+	const annotations = parseAnnotations(text).annotations;
+	const located = findLocatedAnnotation(annotations, { from: annotations[1].from + 5, id: "k1", note: "stale", text: "b" });
+	assert.equal(located, annotations[1]);
+});
+
+test("getDecorationAttributes keeps live preview marks out of the tab order", () => {
+	const [annotation] = parseAnnotations('<span class="ob-comment" data-note="n">x</span>').annotations;
+	const attributes = getDecorationAttributes(annotation);
+	assert.equal(attributes.role, "mark");
+	assert.equal(attributes.tabindex, undefined);
+});
@@ -0,0 +1,37 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { applySuggestion, findSuggestTrigger, rankSuggestions } from "../annotation-suggest";
+
+test("findSuggestTrigger detects an open wikilink with an optional heading", () => {
+	assert.deepEqual(findSuggestTrigger("see [[Pro", 9), { type: "link", from: 4, to: 9, path: "Pro", heading: null });
+	assert.deepEqual(findSuggestTrigger("![[Notes/A#Intro", 16), { type: "link", from: 1, to: 16, path: "Notes/A", heading: "Intro" });
+	assert.equal(findSuggestTrigger("[[A]] done", 10), null);
+	assert.equal(findSuggestTrigger("[[A|ali", 7), null);
+	assert.equal(findSuggestTrigger("[[A\nnext", 8), null);
+});
+
+test("findSuggestTrigger detects a tag after whitespace but not inside words", () => {
+	assert.deepEqual(findSuggestTrigger("todo #proj/a", 12), { type: "tag", from: 5, to: 12, query: "proj/a" });
+	assert.deepEqual(findSuggestTrigger("#", 1), { type: "tag", from: 0, to: 1, query: "" });
+	assert.equal(findSuggestTrigger("a#b", 3), null);
+	assert.equal(findSuggestTrigger("#tag, more", 10), null);
+});
+
+test("rankSuggestions prefers name prefixes, then name and path matches", () => {
+	const paths = ["Archive/Project notes.md", "Project.md", "Ideas/Side project.md", "Other.md"];
+	assert.deepEqual(rankSuggestions(paths, "project", path => path, 10), ["Project.md", "Archive/Project notes.md", "Ideas/Side project.md"]);
+	assert.deepEqual(rankSuggestions(paths, "ideas", path => path, 10), ["Ideas/Side project.md"]);
+	assert.deepEqual(rankSuggestions(paths, "", path => path, 2), paths.slice(0, 2));
+});
+
+test("applySuggestion completes links and tags and places the cursor after them", () => {
+	const link = findSuggestTrigger("see [[Pro]] now", 9);
+	assert.ok(link);
+	assert.deepEqual(applySuggestion("see [[Pro]] now", link, "Project#Goals"), { text: "see [[Project#Goals]] now", cursor: 21 });
+
+	const tag = findSuggestTrigger("a #pr", 5);
+	assert.ok(tag);
+	assert.deepEqual(applySuggestion("a #pr", tag, "project"), { text: "a #project ", cursor: 11 });
+	assert.deepEqual(applySuggestion("a #pr b", { ...tag }, "project"), { text: "a #project b", cursor: 10 });
+});
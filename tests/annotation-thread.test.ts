@@ -0,0 +1,37 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { buildAnnotationHtml, parseAnnotations } from "../annotation-parser";
+import { normalizeAnnotationsInText } from "../annotation-normalization";
+import { getAnnotationReplies, parseReplies, withAnnotationReplies, type AnnotationReply } from "../annotation-thread";
+
+const replies: AnnotationReply[] = [
+	{ author: "Ann", created: "2026-10-18T08:30:00Z", text: "Agree.\n\n| a | b |\n| - | - |" },
+	{ author: "Bo \"B\"", created: "2026-10-18T09:00:00Z", text: "<b>not</b> & 'quoted' `code`" },
+];
+
+test("replies round-trip through the span HTML and normalization", () => {
+	const html = buildAnnotationHtml({
+		color: "",
+		note: "note",
+		text: "t",
+		attributes: withAnnotationReplies([], replies),
+	});
+	const openTag = html.slice(0, html.indexOf(">t<") + 1);
+	assert.doesNotMatch(openTag.slice(1, -1), /[\n|<>]/);
+
+	const { text } = normalizeAnnotationsInText(html);
+	assert.equal(text, html);
+	assert.deepEqual(getAnnotationReplies(parseAnnotations(text).annotations[0].attributes), replies);
+});
+
+test("withAnnotationReplies removes the attribute when the thread is empty", () => {
+	const [annotation] = parseAnnotations('<span class="ob-comment" data-note="n" data-replies="[]">t</span>').annotations;
+	assert.deepEqual(withAnnotationReplies(annotation.attributes, []), []);
+});
+
+test("parseReplies ignores malformed data", () => {
+	assert.deepEqual(parseReplies("not json"), []);
+	assert.deepEqual(parseReplies('{"text":"x"}'), []);
+	assert.deepEqual(parseReplies('[{"text":"x"},{"author":"A"},null]'), [{ author: "", created: "", text: "x" }]);
+});
@@ -0,0 +1,39 @@
+import * as assert from "node:assert/strict";
+import test = require("node:test");
+
+import { TOOLTIP_GAP, VIEWPORT_MARGIN, computeTooltipPosition } from "../tooltip-position";
+
+const viewport = { width: 800, height: 600 };
+const box = (left: number, top: number, right: number, bottom: number) => ({ left, top, right, bottom });
+
+test("computeTooltipPosition places the tooltip above the annotation, centered on the pointer", () => {
+	const position = computeTooltipPosition([box(100, 300, 300, 320)], { width: 200, height: 100 }, viewport, { x: 250, y: 310 });
+	assert.deepEqual(position, { left: 150, top: 300 - TOOLTIP_GAP - 100, placement: "above", maxHeight: 300 - TOOLTIP_GAP - VIEWPORT_MARGIN });
+});
+
+test("computeTooltipPosition flips below when there is no room above and clears every line of the span", () => {
+	const rects = [box(400, 40, 780, 60), box(0, 60, 200, 80)];
+	const position = computeTooltipPosition(rects, { width: 300, height: 100 }, viewport, { x: 100, y: 70 });
+	assert.equal(position.placement, "below");
+	assert.equal(position.top, 80 + TOOLTIP_GAP);
+	assert.equal(position.left, VIEWPORT_MARGIN);
+});
+
+test("computeTooltipPosition shifts horizontally to stay inside the viewport", () => {
+	const position = computeTooltipPosition([box(700, 300, 790, 320)], { width: 300, height: 50 }, viewport);
+	assert.equal(position.left, 800 - VIEWPORT_MARGIN - 300);
+});
+
+test("computeTooltipPosition limits the height on the roomier side when the tooltip fits nowhere", () => {
+	const position = computeTooltipPosition([box(100, 200, 300, 220)], { width: 200, height: 1000 }, viewport);
+	assert.equal(position.placement, "below");
+	assert.equal(position.maxHeight, 600 - 220 - TOOLTIP_GAP - VIEWPORT_MARGIN);
+	assert.equal(position.top, 220 + TOOLTIP_GAP);
+});
+
+test("computeTooltipPosition only avoids the hovered line when the span fills the screen", () => {
+	const rects = [box(0, 10, 800, 30), box(0, 290, 800, 310), box(0, 570, 800, 590)];
+	const position = computeTooltipPosition(rects, { width: 200, height: 100 }, viewport, { x: 400, y: 300 });
+	assert.equal(position.placement, "above");
+	assert.equal(position.top, 290 - TOOLTIP_GAP - 100);
+});
@@ -0,0 +1,76 @@
+export type Box = { left: number; top: number; right: number; bottom: number };
+export type Size = { width: number; height: number };
+export type Point = { x: number; y: number };
+
+export type TooltipPlacement = "above" | "below";
+
+export type TooltipPosition = {
+	left: number;
+	top: number;
+	placement: TooltipPlacement;
+	/** 可用的最大高度，内容更高时在悬浮框内部滚动 */
+	maxHeight: number;
+};
+
+/** 悬浮框与批注文本之间的距离 */
+export const TOOLTIP_GAP = 8;
+/** 悬浮框与窗口边缘的最小距离 */
+export const VIEWPORT_MARGIN = 8;
+/** 外接框上下空间都不足此高度时（如批注跨越整屏），改为只避开鼠标所在的那一行 */
+const MIN_TOOLTIP_HEIGHT = 80;
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.max(min, Math.min(value, max));
+}
+
+function unionBox(rects: Box[]): Box {
+	return {
+		left: Math.min(...rects.map(rect => rect.left)),
+		top: Math.min(...rects.map(rect => rect.top)),
+		right: Math.max(...rects.map(rect => rect.right)),
+		bottom: Math.max(...rects.map(rect => rect.bottom)),
+	};
+}
+
+/**
+ * 鼠标所在（或纵向最近）的那一行；没有鼠标位置时（键盘聚焦）取第一行
+ */
+function pickLine(rects: Box[], pointer: Point | null): Box {
+	if (!pointer) return rects[0];
+	const distance = (rect: Box) => Math.max(rect.top - pointer.y, pointer.y - rect.bottom, 0);
+	return rects.reduce((best, rect) => (distance(rect) < distance(best) ? rect : best));
+}
+
+/**
+ * 计算悬浮框位置（视口坐标）。
+ * 纵向避开批注的所有行：优先放在上方，空间不足时翻到下方，两侧都放不下时放在空间较大的一侧并限制高度；
+ * 横向以鼠标所在行（及鼠标横坐标）为中心，并平移以留在视口内。
+ */
+export function computeTooltipPosition(rects: Box[], tooltip: Size, viewport: Size, pointer: Point | null = null): TooltipPosition {
+	const line = pickLine(rects, pointer);
+	let anchor = unionBox(rects);
+	const spaceAround = (box: Box) => ({
+		above: box.top - TOOLTIP_GAP - VIEWPORT_MARGIN,
+		below: viewport.height - box.bottom - TOOLTIP_GAP - VIEWPORT_MARGIN,
+	});
+	let space = spaceAround(anchor);
+	if (Math.max(space.above, space.below) < MIN_TOOLTIP_HEIGHT) {
+		anchor = line;
+		space = spaceAround(anchor);
+	}
+
+	let placement: TooltipPlacement;
+	if (tooltip.height <= space.above) placement = "above";
+	else if (tooltip.height <= space.below) placement = "below";
+	else placement = space.above >= space.below ? "above" : "below";
+
+	const maxHeight = Math.max(placement === "above" ? space.above : space.below, 0);
+	const height = Math.min(tooltip.height, maxHeight);
+	const top = placement === "above" ? anchor.top - TOOLTIP_GAP - height : anchor.bottom + TOOLTIP_GAP;
+
+	const centerX = pointer ? clamp(pointer.x, line.left, line.right) : line.left + (line.right - line.left) / 2;
+	const maxLeft = Math.max(viewport.width - VIEWPORT_MARGIN - tooltip.width, VIEWPORT_MARGIN);
+	const left = clamp(centerX - tooltip.width / 2, VIEWPORT_MARGIN, maxLeft);
+
+	return { left, top, placement, maxHeight };
+}